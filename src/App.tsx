@@ -13,8 +13,14 @@ import { FavoritesPage } from './pages/FavoritesPage';
 import { Dashboard } from './pages/Dashboard';
 import {ChangePasswordPage} from './pages/ChangePasswordPage';
 import { Footer } from './components/Footer';
+import { SessionExpiredDialog } from './components/SessionExpiredDialog';
+import { IdleTimeoutDialog } from './components/IdleTimeoutDialog';
+import { RequireAuth, GuestOnly } from './components/RouteGuards';
 import MoviePage from './pages/MoviePage';
+import { SearchPage } from './pages/SearchPage';
+import { AuthProvider } from './contexts/AuthContext';
 import { SpeechProvider } from './contexts/SpeechContext';
+import { PlayerProvider } from './contexts/PlayerContext';
 
 /**
  * Main Application Component
@@ -26,9 +32,15 @@ import { SpeechProvider } from './contexts/SpeechContext';
  * Features:
  * - Client-side routing using React Router
  * - Persistent navigation and footer
- * - Public routes (home, about, login, register)
- * - Protected routes (dashboard, profile, favorites)
+ * - Session state shared by the whole app (AuthProvider)
+ * - Public routes (home, about, movie details, search)
+ * - Guest-only routes (login, register), which send signed-in users onwards
+ * - Protected routes (dashboard, profile, favorites, account settings), which
+ *   send anonymous visitors to log in and back
  * - Password management routes
+ * - App-level video player that keeps playing (as a mini-player) across routes
+ * - Session-expired dialog that sends the user back to the login page
+ * - Logout after the inactivity chosen by the user, with a countdown warning
  * 
  * @component
  * @returns {JSX.Element} The main application with routing structure
@@ -36,26 +48,37 @@ import { SpeechProvider } from './contexts/SpeechContext';
 const App: React.FC = () => {
 	return (
 		<BrowserRouter>
-			<SpeechProvider>
-				<Navbar />
-				<main className="pt-16">
-					<Routes>
-						<Route path="/" element={<HomePage />} />
-						<Route path="/about" element={<AboutPage />} />
-						<Route path="/login" element={<LoginPage />} />
-						<Route path="/register" element={<RegisterPage />} />
-						<Route path="/reset-password" element={<ResetPasswordPage />} />
-						<Route path="/recover-password" element={<NewPasswordPage />} />
-						<Route path="/profile" element={<ProfilePage />} />
-						<Route path="/delete-account" element={<DeleteAccountPage />} />
-						<Route path="/dashboard" element={<Dashboard />} />
-						<Route path="/favorites" element={<FavoritesPage />} /> {/* --Provisional route-- */}
-						<Route path="/movies/:id" element={<MoviePage />} />
-						<Route path="/changePassword" element={<ChangePasswordPage />} />
-					</Routes>
-				</main>
-				<Footer />
-			</SpeechProvider>
+			<AuthProvider>
+				<SpeechProvider>
+					<PlayerProvider>
+						<Navbar />
+						<main className="pt-16">
+							<Routes>
+								<Route path="/" element={<HomePage />} />
+								<Route path="/about" element={<AboutPage />} />
+								<Route path="/reset-password" element={<ResetPasswordPage />} />
+								<Route path="/recover-password" element={<NewPasswordPage />} />
+								<Route path="/movies/:id" element={<MoviePage />} />
+								<Route path="/search" element={<SearchPage />} />
+								<Route element={<GuestOnly />}>
+									<Route path="/login" element={<LoginPage />} />
+									<Route path="/register" element={<RegisterPage />} />
+								</Route>
+								<Route element={<RequireAuth />}>
+									<Route path="/dashboard" element={<Dashboard />} />
+									<Route path="/profile" element={<ProfilePage />} />
+									<Route path="/delete-account" element={<DeleteAccountPage />} />
+									<Route path="/favorites" element={<FavoritesPage />} /> {/* --Provisional route-- */}
+									<Route path="/changePassword" element={<ChangePasswordPage />} />
+								</Route>
+							</Routes>
+						</main>
+						<Footer />
+						<SessionExpiredDialog />
+						<IdleTimeoutDialog />
+					</PlayerProvider>
+				</SpeechProvider>
+			</AuthProvider>
 		</BrowserRouter>
 	);
 };
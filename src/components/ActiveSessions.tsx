@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import '../styles/ActiveSessions.scss';
+import authService from '../services/authService';
+import type { ActiveSession } from '../services/authService';
+import { getErrorMessage, isAbortError } from '../services/apiClient';
+
+/**
+ * Formats the last activity of a session.
+ * @param {string} date - ISO date.
+ * @returns {string} Date and time in Spanish, or an empty string if invalid.
+ */
+const formatLastActive = (date: string): string => {
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return '';
+  return parsed.toLocaleString('es-ES', { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+/**
+ * Orders the sessions with the current one first, then by most recent activity.
+ * @param {ActiveSession[]} sessions - Sessions as returned by the backend.
+ * @returns {ActiveSession[]} Sorted copy.
+ */
+const sortSessions = (sessions: ActiveSession[]): ActiveSession[] =>
+  [...sessions].sort(
+    (a, b) => Number(b.current) - Number(a.current) || Date.parse(b.lastActiveAt) - Date.parse(a.lastActiveAt)
+  );
+
+/**
+ * ActiveSessions Component
+ *
+ * "Sesiones activas" section of the profile: lists the open sessions of the
+ * user (device, browser, approximate location and last activity) and lets
+ * them close any of the others, one by one or all at once. The current
+ * session is closed through the usual logout instead.
+ *
+ * @component
+ * @returns {JSX.Element} The list of sessions
+ */
+export const ActiveSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+  const [error, setError] = useState('');
+  /** Session being closed, `'others'` while closing all the others, or `null`. */
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  /** Loads the sessions once. */
+  useEffect(() => {
+    const controller = new AbortController();
+    authService
+      .getSessions(controller.signal)
+      .then((list) => setSessions(sortSessions(list)))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setError(getErrorMessage(err, 'Error al cargar las sesiones activas'));
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevoking(sessionId);
+    try {
+      await authService.revokeSession(sessionId);
+      setSessions((current) => current?.filter((session) => session.id !== sessionId) ?? null);
+      toast('Sesión cerrada.');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Error al cerrar la sesión'));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevoking('others');
+    try {
+      await authService.revokeOtherSessions();
+      setSessions((current) => current?.filter((session) => session.current) ?? null);
+      toast('Se cerraron las demás sesiones.');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Error al cerrar las demás sesiones'));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const hasOthers = sessions?.some((session) => !session.current) ?? false;
+
+  return (
+    <section className="active-sessions" aria-labelledby="active-sessions-title" aria-busy={sessions === null && !error}>
+      <h3 id="active-sessions-title" className="profile-subtitle">Sesiones activas</h3>
+
+      {error && <p className="active-sessions-error" role="alert">{error}</p>}
+      {!error && sessions === null && <p className="active-sessions-empty">Cargando sesiones...</p>}
+
+      {sessions && (
+        <ul className="active-sessions-list">
+          {sessions.map((session) => (
+            <li key={session.id} className={`active-session${session.current ? ' is-current' : ''}`}>
+              <div className="active-session-info">
+                <span className="active-session-device">
+                  {session.device} · {session.browser}
+                  {session.current && <span className="active-session-badge">Este dispositivo</span>}
+                </span>
+                <span className="active-session-meta">
+                  {session.location ? `${session.location} · ` : ''}
+                  {session.current ? 'Activa ahora' : `Última actividad: ${formatLastActive(session.lastActiveAt)}`}
+                </span>
+              </div>
+              {!session.current && (
+                <button
+                  type="button"
+                  className="btn-revoke"
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={revoking !== null}
+                  aria-label={`Cerrar sesión en ${session.device}, ${session.browser}`}
+                >
+                  {revoking === session.id ? 'Cerrando...' : 'Cerrar sesión'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasOthers && (
+        <button type="button" className="btn-revoke-others" onClick={handleRevokeOthers} disabled={revoking !== null}>
+          {revoking === 'others' ? 'Cerrando sesiones...' : 'Cerrar todas las demás sesiones'}
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default ActiveSessions;
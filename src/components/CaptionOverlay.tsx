@@ -0,0 +1,85 @@
+import React from 'react';
+import '../styles/CaptionOverlay.scss';
+import type { CaptionEdgeStyle, CaptionStyle } from '../services/preferencesService';
+
+/**
+ * Properties for the CaptionText component.
+ *
+ * @interface CaptionTextProps
+ * @property {string} text - Plain cue text (may contain line breaks)
+ * @property {CaptionStyle} captionStyle - User caption preferences
+ */
+interface CaptionTextProps {
+  text: string;
+  captionStyle: CaptionStyle;
+}
+
+/**
+ * Properties for the CaptionOverlay component.
+ *
+ * @interface CaptionOverlayProps
+ * @property {string[]} cues - Texts of the currently active cues, in display order
+ * @property {CaptionStyle} captionStyle - User caption preferences
+ */
+interface CaptionOverlayProps {
+  cues: string[];
+  captionStyle: CaptionStyle;
+}
+
+/** `text-shadow` values for every edge style. */
+const EDGE_SHADOWS: Record<CaptionEdgeStyle, string> = {
+  none: 'none',
+  outline: '-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000, 0 0 2px #000',
+  shadow: '2px 2px 3px rgba(0,0,0,0.9)',
+  raised: '1px 1px 0 #222, 2px 2px 0 #000',
+  depressed: '-1px -1px 0 #222, -2px -2px 0 #000',
+};
+
+/**
+ * CaptionText Component
+ *
+ * Renders a single caption with the user's font size, color, background and edge style.
+ * Also used by the caption settings panel as a live preview.
+ *
+ * @component
+ * @param {CaptionTextProps} props - Component properties
+ * @returns {JSX.Element} The styled caption text
+ */
+export const CaptionText: React.FC<CaptionTextProps> = ({ text, captionStyle }) => (
+  <span
+    className="caption-text"
+    style={{
+      color: captionStyle.textColor,
+      backgroundColor: `rgba(0, 0, 0, ${captionStyle.backgroundOpacity})`,
+      textShadow: EDGE_SHADOWS[captionStyle.edgeStyle],
+      fontSize: `calc(var(--caption-base-size) * ${captionStyle.fontScale})`,
+    }}
+  >
+    {text}
+  </span>
+);
+
+/**
+ * CaptionOverlay Component
+ *
+ * Custom cue renderer drawn on top of the video. Used instead of the native
+ * `::cue` rendering so size, colors, edge style and vertical position can be
+ * customized consistently across browsers and in fullscreen.
+ *
+ * @component
+ * @param {CaptionOverlayProps} props - Component properties
+ * @returns {JSX.Element | null} The caption overlay, or null when no cue is active
+ */
+const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ cues, captionStyle }) => {
+  if (cues.length === 0) return null;
+
+  return (
+    <div className="caption-overlay" style={{ bottom: `${captionStyle.position}%` }} aria-live="off">
+      {cues.map((text, index) => (
+        <CaptionText key={`${index}-${text}`} text={text} captionStyle={captionStyle} />
+      ))}
+    </div>
+  );
+};
+
+export default CaptionOverlay;
@@ -0,0 +1,154 @@
+import React from 'react';
+import '../styles/CaptionSettingsPanel.scss';
+import { CaptionText } from './CaptionOverlay';
+import type { CaptionEdgeStyle, CaptionStyle } from '../services/preferencesService';
+
+/**
+ * Properties for the CaptionSettingsPanel component.
+ *
+ * @interface CaptionSettingsPanelProps
+ * @property {CaptionStyle} captionStyle - Current caption preferences
+ * @property {(style: CaptionStyle) => void} onChange - Called with the updated preferences
+ * @property {() => void} onReset - Restores the default preferences
+ * @property {() => void} onClose - Closes the panel
+ */
+interface CaptionSettingsPanelProps {
+  captionStyle: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+/** Available font sizes (scale over the default size). */
+const FONT_SCALES = [
+  { value: 0.75, label: '75%' },
+  { value: 1, label: '100%' },
+  { value: 1.5, label: '150%' },
+  { value: 2, label: '200%' },
+  { value: 3, label: '300%' },
+];
+
+/** High-contrast text colors offered to the user. */
+const TEXT_COLORS = [
+  { value: '#ffffff', label: 'Blanco' },
+  { value: '#ffff00', label: 'Amarillo' },
+  { value: '#00ffff', label: 'Cian' },
+  { value: '#00ff00', label: 'Verde' },
+  { value: '#ff5cf4', label: 'Magenta' },
+  { value: '#000000', label: 'Negro' },
+];
+
+/** Edge styles with their Spanish labels. */
+const EDGE_STYLES: { value: CaptionEdgeStyle; label: string }[] = [
+  { value: 'none', label: 'Ninguno' },
+  { value: 'outline', label: 'Contorno' },
+  { value: 'shadow', label: 'Sombra' },
+  { value: 'raised', label: 'Elevado' },
+  { value: 'depressed', label: 'Hundido' },
+];
+
+/**
+ * CaptionSettingsPanel Component
+ *
+ * Settings panel for subtitle appearance, aimed at low-vision users.
+ * Lets the user choose font size, text color, background opacity, edge style
+ * and vertical position, with a live preview. Changes are applied immediately.
+ *
+ * @component
+ * @param {CaptionSettingsPanelProps} props - Component properties
+ * @returns {JSX.Element} The rendered settings panel
+ */
+const CaptionSettingsPanel: React.FC<CaptionSettingsPanelProps> = ({ captionStyle, onChange, onReset, onClose }) => {
+  /**
+   * Updates a single field of the caption preferences.
+   *
+   * @template K Field name
+   * @param {K} field - Field to update
+   * @param {CaptionStyle[K]} value - New value
+   * @returns {void}
+   */
+  const update = <K extends keyof CaptionStyle>(field: K, value: CaptionStyle[K]) => {
+    onChange({ ...captionStyle, [field]: value });
+  };
+
+  return (
+    <div className="caption-settings" role="dialog" aria-label="Estilo de subtítulos" onClick={(e) => e.stopPropagation()}>
+      <div className="caption-settings-header">
+        <span>Estilo de subtítulos</span>
+        <button type="button" className="caption-settings-close" onClick={onClose} aria-label="Cerrar estilo de subtítulos">×</button>
+      </div>
+
+      <div className="caption-settings-preview" aria-hidden="true">
+        <CaptionText text="Así se verán tus subtítulos" captionStyle={captionStyle} />
+      </div>
+
+      <label className="caption-settings-field">
+        Tamaño de letra
+        <select value={captionStyle.fontScale} onChange={(e) => update('fontScale', Number(e.target.value))}>
+          {FONT_SCALES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      <fieldset className="caption-settings-field">
+        <legend>Color del texto</legend>
+        <div className="caption-swatches" role="radiogroup" aria-label="Color del texto">
+          {TEXT_COLORS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={captionStyle.textColor === value}
+              aria-label={label}
+              title={label}
+              className={`caption-swatch ${captionStyle.textColor === value ? 'selected' : ''}`}
+              style={{ backgroundColor: value }}
+              onClick={() => update('textColor', value)}
+            />
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="caption-settings-field">
+        Opacidad del fondo: {Math.round(captionStyle.backgroundOpacity * 100)}%
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(captionStyle.backgroundOpacity * 100)}
+          onChange={(e) => update('backgroundOpacity', Number(e.target.value) / 100)}
+        />
+      </label>
+
+      <label className="caption-settings-field">
+        Borde del texto
+        <select value={captionStyle.edgeStyle} onChange={(e) => update('edgeStyle', e.target.value as CaptionEdgeStyle)}>
+          {EDGE_STYLES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="caption-settings-field">
+        Posición vertical: {captionStyle.position}%
+        <input
+          type="range"
+          min={0}
+          max={80}
+          step={2}
+          value={captionStyle.position}
+          onChange={(e) => update('position', Number(e.target.value))}
+          aria-valuetext={`${captionStyle.position}% desde abajo`}
+        />
+      </label>
+
+      <button type="button" className="caption-settings-reset" onClick={onReset}>
+        Restablecer valores
+      </button>
+    </div>
+  );
+};
+
+export default CaptionSettingsPanel;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useRef } from 'react';
+import '../styles/ContinueWatchingRow.scss';
+import { FaChevronLeft, FaChevronRight, FaTimes } from 'react-icons/fa';
+import movieService from '../services/movieService';
+import progressService, { isResumable } from '../services/progressService';
+import type { WatchProgress } from '../services/progressService';
+import { useSpeech } from '../contexts/SpeechContext';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Represents a movie/video object with metadata.
+ *
+ * @interface Movie
+ * @property {string} _id - Unique database identifier
+ * @property {string} title - Title of the movie/video
+ * @property {string} imageUrl - URL of the thumbnail image
+ * @property {string} videoUrl - URL of the video file
+ * @property {string} [author] - Author or creator of the video
+ */
+interface Movie {
+  _id: string;
+  title: string;
+  imageUrl: string;
+  videoUrl: string;
+  author?: string;
+}
+
+/**
+ * A partially watched movie with its saved progress.
+ *
+ * @interface ContinueWatchingItem
+ * @property {Movie} movie - Movie details
+ * @property {WatchProgress} progress - Saved playback position
+ */
+interface ContinueWatchingItem {
+  movie: Movie;
+  progress: WatchProgress;
+}
+
+/**
+ * Properties for the ContinueWatchingRow component.
+ *
+ * @interface ContinueWatchingRowProps
+ * @property {(movie: Movie, position: number) => void} onSelect - Opens a movie at the given position
+ * @property {number} [refreshKey] - Changing this value reloads the row (e.g. after closing the player)
+ */
+interface ContinueWatchingRowProps {
+  onSelect: (movie: Movie, position: number) => void;
+  refreshKey?: number;
+}
+
+/** Maximum number of movies shown in the row. */
+const MAX_ITEMS = 12;
+
+/**
+ * ContinueWatchingRow Component
+ *
+ * Horizontal carousel with the movies the user started but did not finish,
+ * most recently watched first. Each thumbnail shows a progress bar, and items
+ * can be removed from the row (which forgets their saved progress).
+ * Renders nothing when there is nothing to continue.
+ *
+ * @component
+ * @param {ContinueWatchingRowProps} props - Component properties
+ * @returns {JSX.Element | null} The rendered row
+ */
+const ContinueWatchingRow: React.FC<ContinueWatchingRowProps> = ({ onSelect, refreshKey = 0 }) => {
+  const [items, setItems] = useState<ContinueWatchingItem[]>([]);
+  const trackRef = useRef<HTMLUListElement | null>(null);
+  const { handleSpeak } = useSpeech();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  /**
+   * Loads the saved progress and the details of each partially watched movie.
+   * Movies that can no longer be fetched are skipped.
+   *
+   * @effect
+   * @listens refreshKey - Reloads when the parent requests it
+   * @listens userId - Progress is kept per user
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const entries = (await progressService.list()).filter(isResumable).slice(0, MAX_ITEMS);
+        const results = await Promise.allSettled(
+          entries.map((progress) => movieService.getMovie<Movie>(progress.movieId, controller.signal))
+        );
+        if (controller.signal.aborted) return;
+
+        setItems(
+          results.flatMap((result, index) =>
+            result.status === 'fulfilled' && result.value ? [{ movie: result.value, progress: entries[index] }] : []
+          )
+        );
+      } catch (err) {
+        console.error('Error al cargar "Continuar viendo":', err);
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [refreshKey, userId]);
+
+  /**
+   * Removes a movie from the row and forgets its saved progress.
+   *
+   * @param {string} movieId - Movie to remove
+   * @returns {void}
+   */
+  const handleRemove = (movieId: string) => {
+    setItems((prev) => prev.filter((item) => item.movie._id !== movieId));
+    progressService.remove(movieId);
+  };
+
+  /**
+   * Scrolls the carousel by roughly one visible page.
+   *
+   * @param {1 | -1} direction - 1 to scroll right, -1 to scroll left
+   * @returns {void}
+   */
+  const scrollBy = (direction: 1 | -1) => {
+    const track = trackRef.current;
+    if (!track) return;
+    track.scrollBy({ left: direction * track.clientWidth * 0.8, behavior: 'smooth' });
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <section className="continue-watching" aria-labelledby="continue-watching-title">
+      <div className="continue-watching-head">
+        <h2 id="continue-watching-title" className="continue-watching-title">Continuar viendo</h2>
+        <div className="continue-watching-nav">
+          <button type="button" onClick={() => scrollBy(-1)} aria-label="Desplazar a la izquierda"><FaChevronLeft /></button>
+          <button type="button" onClick={() => scrollBy(1)} aria-label="Desplazar a la derecha"><FaChevronRight /></button>
+        </div>
+      </div>
+
+      <ul className="continue-watching-track" ref={trackRef}>
+        {items.map(({ movie, progress }) => {
+          const percent = progress.duration ? Math.min(100, (progress.position / progress.duration) * 100) : 0;
+          return (
+            <li key={movie._id} className="continue-item">
+              <button
+                type="button"
+                className="continue-item-open"
+                onClick={() => onSelect(movie, progress.position)}
+                onMouseEnter={() => handleSpeak(`Continuar viendo ${movie.title}`)}
+                onFocus={() => handleSpeak(`Continuar viendo ${movie.title}`)}
+                aria-label={`Continuar viendo ${movie.title}`}
+              >
+                <div className="continue-thumb">
+                  <img src={movie.imageUrl} alt="" />
+                  <span className="continue-play" aria-hidden="true">▶</span>
+                  <div
+                    className="continue-progress"
+                    role="progressbar"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(percent)}
+                    aria-label="Progreso visto"
+                  >
+                    <div className="continue-progress-bar" style={{ width: `${percent}%` }} />
+                  </div>
+                </div>
+                <span className="continue-item-title">{movie.title}</span>
+              </button>
+              <button
+                type="button"
+                className="continue-item-remove"
+                onClick={() => handleRemove(movie._id)}
+                aria-label={`Quitar ${movie.title} de Continuar viendo`}
+                title="Quitar de la fila"
+              >
+                <FaTimes />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default ContinueWatchingRow;
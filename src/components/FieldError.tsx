@@ -0,0 +1,34 @@
+import React from 'react';
+
+/**
+ * Properties for the FieldError component.
+ *
+ * @interface FieldErrorProps
+ * @property {string} id - Element id, referenced by the input's `aria-describedby`
+ * @property {string} [message] - Error of the field; nothing is rendered without it
+ */
+interface FieldErrorProps {
+  id: string;
+  message?: string;
+}
+
+/**
+ * FieldError Component
+ *
+ * Shows the error of a single form field right below its input, e.g. the
+ * per-field messages of a backend validation error.
+ *
+ * @component
+ * @param {FieldErrorProps} props - Component properties
+ * @returns {JSX.Element | null} The error message, or nothing if the field is valid
+ */
+export const FieldError: React.FC<FieldErrorProps> = ({ id, message }) => {
+  if (!message) return null;
+  return (
+    <span id={id} className="field-error" role="alert">
+      {message}
+    </span>
+  );
+};
+
+export default FieldError;
@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { findMatchRanges } from '../services/catalogIndex';
+
+/**
+ * Properties for the HighlightedText component.
+ *
+ * @interface HighlightedTextProps
+ * @property {string} text - Text to display
+ * @property {string} query - Search query whose matches are highlighted
+ */
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+/**
+ * HighlightedText Component
+ *
+ * Renders a text with the parts that match a search query wrapped in `<mark>`.
+ * Matching ignores accents and tolerates typos, like the catalog search.
+ *
+ * @component
+ * @param {HighlightedTextProps} props - Component properties
+ * @returns {JSX.Element} The text with its matches highlighted
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  const parts = useMemo(() => {
+    const ranges = findMatchRanges(text, query);
+    const result: Array<{ text: string; match: boolean }> = [];
+    let cursor = 0;
+    for (const { start, end } of ranges) {
+      if (start > cursor) result.push({ text: text.slice(cursor, start), match: false });
+      result.push({ text: text.slice(start, end), match: true });
+      cursor = end;
+    }
+    if (cursor < text.length) result.push({ text: text.slice(cursor), match: false });
+    return result;
+  }, [text, query]);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? <mark key={index} className="search-highlight">{part.text}</mark> : <React.Fragment key={index}>{part.text}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
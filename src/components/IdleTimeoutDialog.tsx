@@ -0,0 +1,107 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router';
+import '../styles/IdleTimeoutDialog.scss';
+import { buildLoginPath } from '../services/authService';
+import { useAuth } from '../contexts/AuthContext';
+import { useSpeech } from '../contexts/SpeechContext';
+import { usePlayer } from '../contexts/PlayerContext';
+import { usePreference } from '../hooks/usePreference';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+
+/** How long (ms) before the session is closed the countdown is shown. */
+const WARNING_TIME = 60 * 1000;
+
+/**
+ * IdleTimeoutDialog Component
+ *
+ * Closes the session after the inactivity chosen by the user in their profile
+ * (`idleTimeout` preference; never, if 0). Activity in any tab of the app
+ * counts, and so does a playing video. A minute before, a dialog counts down
+ * the remaining seconds and lets the user keep the session open; when it
+ * reaches zero the player is closed, and the user is logged out and sent to
+ * the login page, to come back to where they were. Logging out drops the API
+ * reads cached for the user and the local copy of their watch progress; their
+ * preferences (plain settings) are kept.
+ *
+ * @component
+ * @returns {JSX.Element | null} The countdown dialog, or nothing while the user is active
+ */
+export const IdleTimeoutDialog: React.FC = () => {
+  const { isAuthenticated, logout } = useAuth();
+  const [idleTimeout] = usePreference('idleTimeout');
+  const { handleSpeak } = useSpeech();
+  const { close: closePlayer } = usePlayer();
+  const navigate = useNavigate();
+  const stayButtonRef = useRef<HTMLButtonElement>(null);
+
+  const onTimeout = useCallback(() => {
+    const { pathname, search } = window.location;
+    closePlayer(); // Saves the position while still signed in; nothing keeps playing on the login page
+    logout()
+      .catch((error) => console.warn('No se pudo cerrar la sesión por inactividad:', error))
+      .finally(() => navigate(buildLoginPath(`${pathname}${search}`)));
+  }, [closePlayer, logout, navigate]);
+
+  const { secondsLeft, stayActive } = useIdleTimer({
+    timeout: isAuthenticated ? idleTimeout * 60 * 1000 : 0,
+    warningTime: WARNING_TIME,
+    onTimeout,
+  });
+
+  const visible = secondsLeft !== null;
+
+  useEffect(() => {
+    if (visible) stayButtonRef.current?.focus();
+  }, [visible]);
+
+  if (!visible) return null;
+
+  const handleLogout = () => {
+    stayActive(); // Hides the dialog while logging out
+    onTimeout();
+  };
+
+  return (
+    <div className="idle-timeout-overlay">
+      <div
+        className="idle-timeout-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-timeout-title"
+        aria-describedby="idle-timeout-message"
+      >
+        <h3 id="idle-timeout-title">¿Sigues ahí?</h3>
+        <p id="idle-timeout-message">
+          Por inactividad, cerraremos tu sesión en{' '}
+          <strong className="idle-timeout-countdown" aria-live="polite">
+            {secondsLeft} {secondsLeft === 1 ? 'segundo' : 'segundos'}
+          </strong>
+          .
+        </p>
+        <div className="idle-timeout-actions">
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={handleLogout}
+            onMouseEnter={() => handleSpeak('Cerrar sesión')}
+            onFocus={() => handleSpeak('Cerrar sesión')}
+          >
+            Cerrar sesión
+          </button>
+          <button
+            ref={stayButtonRef}
+            type="button"
+            className="btn-primary"
+            onClick={stayActive}
+            onMouseEnter={() => handleSpeak('Sigo aquí')}
+            onFocus={() => handleSpeak('Sigo aquí')}
+          >
+            Sigo aquí
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdleTimeoutDialog;
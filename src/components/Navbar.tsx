@@ -1,8 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Link } from 'react-router';
+import { Link, useNavigate } from 'react-router';
 import '../styles/Navbar.scss';
-import authService from '../services/authService';
+import searchService, { MIN_SUGGEST_LENGTH, SUGGESTION_LIMIT } from '../services/searchService';
+import type { SearchMovie } from '../services/searchService';
+import catalogIndex from '../services/catalogIndex';
+import { isAbortError } from '../services/apiClient';
+import HighlightedText from './HighlightedText';
 import { useSpeech } from '../contexts/SpeechContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
 
 /**
  * Props for the Navbar component.
@@ -17,16 +23,10 @@ type Props = {
 };
 
 /**
- * Retrieves a cookie value by name from the document cookies.
- * 
- * @param {string} name - The name of the cookie to retrieve
- * @returns {string | null} The decoded cookie value or null if not found
+ * Time (ms) to wait for the search endpoint before showing matches from the
+ * movies already loaded in the app.
  */
-const getCookie = (name: string): string | null => {
-  if (typeof document === 'undefined') return null;
-  const match = document.cookie.split('; ').find((row) => row.startsWith(name + '='));
-  return match ? decodeURIComponent(match.split('=')[1]) : null;
-};
+const SLOW_SUGGESTIONS_DELAY = 1200;
 
 /**
  * Deletes a cookie by setting its Max-Age to 0.
@@ -46,19 +46,12 @@ const deleteCookie = (name: string) => {
  * 
  * Features:
  * - Responsive mobile menu with hamburger toggle
- * - Authentication state detection (cookie + backend verification)
+ * - Authentication state from the session context (useAuth)
  * - Different navigation links for authenticated/unauthenticated users
- * - Search functionality (provisional)
+ * - Movie search with debounced live suggestions and a results page
+ * - Fuzzy suggestions from the loaded catalog when the search endpoint is down or slow
  * - Favorites quick access
  * - Logout functionality with state cleanup
- * - Listens to global auth state changes
- * - Cross-tab synchronization via storage events
- * 
- * Authentication Flow:
- * 1. Checks for cookie-based auth token
- * 2. Falls back to backend verification for HttpOnly cookies
- * 3. Listens to authChanged events for immediate updates
- * 4. Syncs across browser tabs
  * 
  * @component
  * @param {Props} props - Component properties
@@ -66,105 +59,22 @@ const deleteCookie = (name: string) => {
  */
 export const Navbar: React.FC<Props> = ({ isAuthenticated: isAuthProp, onLogout }) => {
   const [open, setOpen] = useState(false);
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(Boolean(isAuthProp));
-  // Provisional: search (refactor needed)
+  // Search
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<SearchMovie[]>([]);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(false);
+  const [localSuggestions, setLocalSuggestions] = useState(false); // true while showing catalog matches
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const debouncedQuery = useDebouncedValue(searchQuery, 250);
   const searchRef = useRef<HTMLDivElement | null>(null); // ref to detect outside clicks
+  const navigate = useNavigate();
+  const { isAuthenticated: isSignedIn, logout } = useAuth();
+  const isAuthenticated = isAuthProp ?? isSignedIn;
   
   // Accessibility: Speech Synthesis (global context)
   const { isSupported, isVoiceEnabled, toggleVoiceAssistance, handleSpeak } = useSpeech();
 
-  /**
-   * Initializes and manages authentication state on component mount.
-   * 
-   * Authentication Strategy:
-   * 1. If isAuthProp is explicitly provided, uses that value directly
-   * 2. Otherwise, attempts to read auth token from cookies (authToken or token)
-   * 3. If cookie token exists, sets authenticated and verifies with backend
-   * 4. If no cookie, falls back to backend verification (for HttpOnly cookies)
-   * 
-   * This effect only runs once on mount or when isAuthProp changes.
-   * Uses a mounted flag to prevent state updates after component unmount.
-   * 
-   * @effect
-   * @listens isAuthProp - Re-runs when authentication prop changes
-   */
-  useEffect(() => {
-    let mounted = true;
-
-    if (typeof isAuthProp === 'boolean') {
-      setIsAuthenticated(isAuthProp);
-      return;
-    }
-
-    // First try to read token from cookie (not HttpOnly)
-    const cookieToken = getCookie('authToken') ?? getCookie('token');
-    if (cookieToken) {
-      setIsAuthenticated(true);
-      // Background verification (if cookie expired/invalid, update state)
-      authService
-        .checkAuth()
-        .then((user) => {
-          if (!mounted) return;
-          setIsAuthenticated(Boolean(user));
-        })
-        .catch(() => {
-          if (!mounted) return;
-          setIsAuthenticated(false);
-        });
-      return;
-    }
-
-    // If no readable cookie, ask the backend (useful when cookie is HttpOnly)
-    authService
-      .checkAuth()
-      .then((user) => {
-        if (!mounted) return;
-        setIsAuthenticated(Boolean(user));
-      })
-      .catch(() => {
-        if (!mounted) return;
-        setIsAuthenticated(false);
-      });
-
-    return () => {
-      mounted = false;
-    };
-  }, [isAuthProp]);
-
-  /**
-   * Listens to global authentication state changes and storage events.
-   * Refreshes authentication status when auth changes occur in this tab
-   * or other tabs (via storage event).
-   * 
-   * @effect
-   * @listens authChanged - Custom event dispatched when auth state changes
-   * @listens storage - Browser storage event for cross-tab synchronization
-   */
-  useEffect(() => {
-    const refreshAuthState = () => {
-      const token = getCookie('authToken') ?? getCookie('token') ?? localStorage.getItem('authToken');
-      if (token) {
-        // opcional: verificar con backend si quieres mayor seguridad
-        setIsAuthenticated(true);
-      } else {
-        // intenta validar con backend (cookie HttpOnly)
-        authService
-          .checkAuth()
-          .then((user) => setIsAuthenticated(Boolean(user)))
-          .catch(() => setIsAuthenticated(false));
-      }
-    };
-
-    window.addEventListener('authChanged', refreshAuthState);
-    window.addEventListener('storage', refreshAuthState); // changes from other tabs
-    return () => {
-      window.removeEventListener('authChanged', refreshAuthState);
-      window.removeEventListener('storage', refreshAuthState);
-    };
-  }, []);
-
   /**
    * Toggles the mobile navigation menu visibility.
    * 
@@ -182,23 +92,17 @@ export const Navbar: React.FC<Props> = ({ isAuthenticated: isAuthProp, onLogout
   /**
    * Handles user logout process.
    * Performs the following steps:
-   * 1. Calls backend logout endpoint to invalidate HttpOnly cookies
-   * 2. Removes client-side cookies and localStorage tokens
-   * 3. Dispatches authChanged event to notify the application
-   * 4. Updates local authentication state
-   * 5. Closes mobile menu
-   * 6. Redirects to home page
+   * 1. Closes the session (backend logout endpoint invalidates HttpOnly cookies)
+   * 2. Removes legacy client-side cookies and localStorage tokens
+   * 3. Closes mobile menu
+   * 4. Redirects to home page
    * 
    * @async
    * @returns {Promise<void>}
    */
   const handleLogout = async () => {
-    try {
-      // llamar endpoint de logout para invalidar cookie HttpOnly en servidor
-      await authService.logout();
-    } catch (e) {
-      console.error('logout error', e);
-    }
+    // llamar endpoint de logout para invalidar cookie HttpOnly en servidor
+    await logout();
 
     // Remove readable cookies by JS (if they exist)
     try {
@@ -209,18 +113,131 @@ export const Navbar: React.FC<Props> = ({ isAuthenticated: isAuthProp, onLogout
     // Fallback localStorage
     localStorage.removeItem('authToken');
 
-    // Notify the rest of the app that the session was closed
-    window.dispatchEvent(new Event('authChanged'));
-
-    setIsAuthenticated(false);
     if (onLogout) onLogout();
     close();
 
-    window.location.href = '/';
+    navigate('/');
   };
 
-  // -----------------------------------
-  // Provisional search helpers are implemented inline where used to avoid unused lint errors
+  /**
+   * Loads live suggestions for the (debounced) search query.
+   * Requests for outdated queries are cancelled. If the search endpoint
+   * fails, or takes longer than SLOW_SUGGESTIONS_DELAY, matches from the
+   * catalog index are shown meanwhile.
+   *
+   * @effect
+   * @listens debouncedQuery - Fetches once the user stops typing
+   * @listens isSearchOpen - Only fetches while the search panel is open
+   */
+  useEffect(() => {
+    if (!isSearchOpen || debouncedQuery.trim().length < MIN_SUGGEST_LENGTH) {
+      setSuggestions([]);
+      setLoadingSuggestions(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const showCatalogMatches = () => {
+      const matches = catalogIndex.search(debouncedQuery, SUGGESTION_LIMIT);
+      setSuggestions(matches);
+      setLocalSuggestions(matches.length > 0);
+      setActiveSuggestion(-1);
+    };
+    const slowTimer = setTimeout(showCatalogMatches, SLOW_SUGGESTIONS_DELAY);
+
+    setLoadingSuggestions(true);
+    searchService
+      .suggest(debouncedQuery, controller.signal)
+      .then((results) => {
+        clearTimeout(slowTimer);
+        setSuggestions(results);
+        setLocalSuggestions(false);
+        setActiveSuggestion(-1);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        clearTimeout(slowTimer);
+        console.error('Error al obtener sugerencias:', err);
+        showCatalogMatches();
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoadingSuggestions(false);
+      });
+
+    return () => {
+      controller.abort();
+      clearTimeout(slowTimer);
+    };
+  }, [debouncedQuery, isSearchOpen]);
+
+  /**
+   * Closes the search panel (and the mobile menu) after a search or selection.
+   *
+   * @returns {void}
+   */
+  const finishSearch = () => {
+    setIsSearchOpen(false);
+    setActiveSuggestion(-1);
+    close();
+  };
+
+  /**
+   * Opens the details page of a suggested movie.
+   *
+   * @param {SearchMovie} movie - Selected suggestion
+   * @returns {void}
+   */
+  const selectSuggestion = (movie: SearchMovie) => {
+    finishSearch();
+    navigate(`/movies/${movie._id}`);
+  };
+
+  /**
+   * Opens the results page for the typed query.
+   *
+   * @returns {void}
+   */
+  const goToResults = () => {
+    const query = searchQuery.trim();
+    if (!query) return;
+    finishSearch();
+    navigate(`/search?q=${encodeURIComponent(query)}`);
+  };
+
+  /**
+   * Submits the search: opens the highlighted suggestion, if any,
+   * or the results page for the typed query.
+   *
+   * @param {React.FormEvent} e - Form submit event
+   * @returns {void}
+   */
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (activeSuggestion >= 0 && suggestions[activeSuggestion]) {
+      selectSuggestion(suggestions[activeSuggestion]);
+      return;
+    }
+    goToResults();
+  };
+
+  /**
+   * Moves the highlighted suggestion with the arrow keys.
+   *
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - Key event from the search input
+   * @returns {void}
+   */
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions.length) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    }
+  };
+
+  const showSuggestions = searchQuery.trim().length >= MIN_SUGGEST_LENGTH;
 
   /**
    * Sets up click-outside detection and keyboard shortcuts for the search panel.
@@ -367,16 +384,69 @@ export const Navbar: React.FC<Props> = ({ isAuthenticated: isAuthProp, onLogout
 
               {isSearchOpen && (
                 <div className="search-panel" role="dialog" aria-label="Búsqueda">
-                  <form onSubmit={(e) => { e.preventDefault(); /* execute search */ }}>
+                  <form onSubmit={handleSearchSubmit} role="search">
                     <input
                       className="search-input"
                       placeholder="Buscar..."
                       autoFocus
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
+                      onKeyDown={handleSearchKeyDown}
+                      role="combobox"
+                      aria-label="Buscar películas"
+                      aria-autocomplete="list"
+                      aria-expanded={showSuggestions && suggestions.length > 0}
+                      aria-controls="search-suggestions"
+                      aria-activedescendant={activeSuggestion >= 0 ? `search-suggestion-${activeSuggestion}` : undefined}
                     />
                   </form>
-                  {/* optional: results */}
+
+                  {showSuggestions && (
+                    <div className="search-suggestions-wrap">
+                      {loadingSuggestions && suggestions.length === 0 && (
+                        <p className="search-suggestions-status">Buscando…</p>
+                      )}
+                      {!loadingSuggestions && debouncedQuery === searchQuery && suggestions.length === 0 && (
+                        <p className="search-suggestions-status">Sin coincidencias</p>
+                      )}
+                      <ul id="search-suggestions" className="search-suggestions" role="listbox" aria-label="Sugerencias">
+                        {suggestions.map((movie, index) => (
+                          <li
+                            key={movie._id}
+                            id={`search-suggestion-${index}`}
+                            role="option"
+                            aria-selected={index === activeSuggestion}
+                            className={`search-suggestion ${index === activeSuggestion ? 'active' : ''}`}
+                            onClick={() => selectSuggestion(movie)}
+                            onMouseEnter={() => {
+                              setActiveSuggestion(index);
+                              handleSpeak(movie.author ? `${movie.title}. Por ${movie.author}` : movie.title);
+                            }}
+                          >
+                            <img className="search-suggestion-poster" src={movie.imageUrl} alt="" />
+                            <span className="search-suggestion-text">
+                              <span className="search-suggestion-title">
+                                <HighlightedText text={movie.title} query={debouncedQuery} />
+                              </span>
+                              {movie.author && (
+                                <span className="search-suggestion-author">
+                                  <HighlightedText text={movie.author} query={debouncedQuery} />
+                                </span>
+                              )}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                      {localSuggestions && suggestions.length > 0 && (
+                        <p className="search-suggestions-status">Coincidencias entre las películas ya cargadas</p>
+                      )}
+                      {suggestions.length > 0 && (
+                        <button type="button" className="search-see-all" onClick={goToResults}>
+                          Ver todos los resultados
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
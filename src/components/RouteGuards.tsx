@@ -0,0 +1,61 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation, useSearchParams } from 'react-router';
+import '../styles/RouteGuards.scss';
+import { buildLoginPath, getSafeNextPath } from '../services/authService';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Placeholder shown while the session is being checked with the backend.
+ *
+ * @component
+ * @returns {JSX.Element} Spinner with a message
+ */
+const SessionLoading: React.FC = () => (
+  <div className="route-loading" role="status" aria-live="polite">
+    <div className="route-spinner" />
+    <p>Verificando sesión…</p>
+  </div>
+);
+
+/**
+ * RequireAuth Component
+ *
+ * Layout route for pages that need a signed-in user. Anonymous visitors are
+ * sent to `/login`, with the page they asked for as the return path.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Route element={<RequireAuth />}>
+ *   <Route path="/profile" element={<ProfilePage />} />
+ * </Route>
+ * ```
+ * @returns {JSX.Element} The nested route, a redirect, or a loading state
+ */
+export const RequireAuth: React.FC = () => {
+  const { isAuthenticated, loading } = useAuth();
+  const { pathname, search } = useLocation();
+
+  if (loading) return <SessionLoading />;
+  if (!isAuthenticated) return <Navigate to={buildLoginPath(`${pathname}${search}`)} replace />;
+  return <Outlet />;
+};
+
+/**
+ * GuestOnly Component
+ *
+ * Layout route for pages meant for anonymous visitors (login, register).
+ * Signed-in users are sent to the page in the `next` query parameter, or to
+ * the dashboard.
+ *
+ * @component
+ * @returns {JSX.Element} The nested route, a redirect, or a loading state
+ */
+export const GuestOnly: React.FC = () => {
+  const { isAuthenticated, loading } = useAuth();
+  const [searchParams] = useSearchParams();
+
+  if (loading) return <SessionLoading />;
+  if (isAuthenticated) return <Navigate to={getSafeNextPath(searchParams.get('next'))} replace />;
+  return <Outlet />;
+};
@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import '../styles/SeekBar.scss';
+import { getStoryboardFrame } from '../services/storyboardService';
+import type { Storyboard } from '../services/storyboardService';
+import { formatTime } from '../utils/formatTime';
+
+/**
+ * Properties for the SeekBar component.
+ *
+ * @interface SeekBarProps
+ * @property {number} current - Current playback position in seconds
+ * @property {number} duration - Total duration in seconds
+ * @property {(time: number) => void} onSeek - Called with the chosen position when the user seeks
+ * @property {Storyboard | null} [storyboard] - Preview thumbnails, when the movie has them
+ */
+interface SeekBarProps {
+  current: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  storyboard?: Storyboard | null;
+}
+
+/** Seconds moved by the left/right arrow keys. */
+const KEYBOARD_STEP = 5;
+
+/** Fraction of the video moved by the Page Up/Page Down keys. */
+const KEYBOARD_PAGE = 0.1;
+
+/**
+ * SeekBar Component
+ *
+ * Playback progress bar of the video player. Supports:
+ * - Clicking or dragging (mouse, pen or touch) to scrub; the video only seeks on release.
+ * - Keyboard control while focused (←/→, Page Up/Down, Home/End), exposed as an ARIA slider.
+ * - A hover tooltip with the target time and, if a storyboard is available, a thumbnail.
+ *
+ * @component
+ * @param {SeekBarProps} props - Component properties
+ * @returns {JSX.Element} The rendered seek bar
+ */
+const SeekBar: React.FC<SeekBarProps> = ({ current, duration, onSeek, storyboard }) => {
+  const barRef = useRef<HTMLDivElement | null>(null);
+  /** Position being dragged to, or null when not scrubbing. */
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  /** Position under the mouse pointer, or null when not hovering. */
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+
+  const value = scrubTime ?? current;
+  const percentOf = (time: number) => (duration ? Math.min(100, Math.max(0, (time / duration) * 100)) : 0);
+
+  /**
+   * Converts a horizontal pointer position into a time in the video.
+   */
+  const timeAt = (clientX: number) => {
+    const bar = barRef.current;
+    if (!bar || !duration) return 0;
+    const rect = bar.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!duration || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    setScrubTime(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubTime !== null) {
+      setScrubTime(timeAt(e.clientX));
+    } else if (e.pointerType === 'mouse') {
+      setHoverTime(timeAt(e.clientX));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubTime === null) return;
+    const time = timeAt(e.clientX);
+    setScrubTime(null);
+    onSeek(time);
+  };
+
+  /**
+   * Keyboard seeking. Propagation is stopped so the player's global
+   * arrow-key shortcuts do not seek a second time.
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    let time: number;
+    switch (e.key) {
+      case 'ArrowRight':
+      case 'ArrowUp':
+        time = current + KEYBOARD_STEP;
+        break;
+      case 'ArrowLeft':
+      case 'ArrowDown':
+        time = current - KEYBOARD_STEP;
+        break;
+      case 'PageUp':
+        time = current + duration * KEYBOARD_PAGE;
+        break;
+      case 'PageDown':
+        time = current - duration * KEYBOARD_PAGE;
+        break;
+      case 'Home':
+        time = 0;
+        break;
+      case 'End':
+        time = duration;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    onSeek(Math.max(0, Math.min(duration, time)));
+  };
+
+  // While scrubbing the preview follows the drag (this is what touch users see)
+  const previewTime = scrubTime ?? hoverTime;
+  const frame = previewTime !== null && storyboard ? getStoryboardFrame(storyboard, previewTime) : null;
+  const previewHalfWidth = (frame?.width ?? 48) / 2;
+
+  return (
+    <div
+      ref={barRef}
+      className={`seek-bar ${scrubTime !== null ? 'scrubbing' : ''}`}
+      role="slider"
+      tabIndex={0}
+      aria-label="Progreso de reproducción"
+      aria-valuemin={0}
+      aria-valuemax={Math.floor(duration)}
+      aria-valuenow={Math.floor(value)}
+      aria-valuetext={`${formatTime(value)} de ${formatTime(duration)}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setScrubTime(null)}
+      onPointerLeave={() => setHoverTime(null)}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="progress">
+        {hoverTime !== null && scrubTime === null && (
+          <div className="seek-hover" style={{ width: `${percentOf(hoverTime)}%` }} />
+        )}
+        <div className="progress-bar" style={{ width: `${percentOf(value)}%` }} />
+      </div>
+      <div className="seek-thumb" style={{ left: `${percentOf(value)}%` }} />
+
+      {previewTime !== null && duration > 0 && (
+        <div
+          className="seek-preview"
+          // Keep the tooltip inside the bar near both ends
+          style={{ left: `clamp(${previewHalfWidth}px, ${percentOf(previewTime)}%, calc(100% - ${previewHalfWidth}px))` }}
+          aria-hidden="true"
+        >
+          {frame && (
+            <div
+              className="seek-preview-frame"
+              style={{
+                width: frame.width,
+                height: frame.height,
+                backgroundImage: `url("${frame.url}")`,
+                backgroundPosition: `-${frame.x}px -${frame.y}px`,
+              }}
+            />
+          )}
+          <span className="seek-preview-time">{formatTime(previewTime)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeekBar;
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router';
+import '../styles/SessionExpiredDialog.scss';
+import { buildLoginPath } from '../services/authService';
+import { useSpeech } from '../contexts/SpeechContext';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * SessionExpiredDialog Component
+ *
+ * Modal dialog shown when the backend rejects a request because the session
+ * expired (`sessionExpired` window event, raised by `apiClient` on any 401).
+ * By then the session state has already been cleared; the dialog lets the user
+ * log in again and come back to the page they were on, or go to the home page.
+ *
+ * @component
+ * @returns {JSX.Element | null} The dialog, or nothing while the session is valid
+ */
+export const SessionExpiredDialog: React.FC = () => {
+  /** Page the user was on when the session expired, or `null` while hidden. */
+  const [returnTo, setReturnTo] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { user } = useAuth();
+  const { handleSpeak } = useSpeech();
+  const loginButtonRef = useRef<HTMLButtonElement>(null);
+
+  /**
+   * Shows the dialog when the session expires, unless the user is already on
+   * the login page.
+   * @listens sessionExpired
+   */
+  useEffect(() => {
+    const onSessionExpired = () => {
+      const { pathname, search } = window.location;
+      if (pathname === '/login') return;
+      setReturnTo((current) => current ?? `${pathname}${search}`);
+    };
+    window.addEventListener('sessionExpired', onSessionExpired);
+    return () => window.removeEventListener('sessionExpired', onSessionExpired);
+  }, []);
+
+  /** Once the user is signed in again (e.g. from another route), the dialog is stale. */
+  useEffect(() => {
+    if (user) setReturnTo(null);
+  }, [user]);
+
+  // Hidden on the login page itself, where the user may have been sent meanwhile
+  const visible = returnTo !== null && pathname !== '/login';
+
+  useEffect(() => {
+    if (visible) loginButtonRef.current?.focus();
+  }, [visible]);
+
+  if (!visible) return null;
+
+  const goToLogin = () => {
+    setReturnTo(null);
+    navigate(buildLoginPath(returnTo));
+  };
+
+  const goHome = () => {
+    setReturnTo(null);
+    navigate('/');
+  };
+
+  return (
+    <div className="session-expired-overlay">
+      <div
+        className="session-expired-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-expired-title"
+        aria-describedby="session-expired-message"
+      >
+        <h3 id="session-expired-title">Tu sesión ha expirado</h3>
+        <p id="session-expired-message">
+          Por seguridad cerramos tu sesión. Inicia sesión de nuevo para continuar donde lo dejaste.
+        </p>
+        <div className="session-expired-actions">
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={goHome}
+            onMouseEnter={() => handleSpeak('Ir al inicio')}
+            onFocus={() => handleSpeak('Ir al inicio')}
+          >
+            Ir al inicio
+          </button>
+          <button
+            ref={loginButtonRef}
+            type="button"
+            className="btn-primary"
+            onClick={goToLogin}
+            onMouseEnter={() => handleSpeak('Iniciar sesión de nuevo')}
+            onFocus={() => handleSpeak('Iniciar sesión de nuevo')}
+          >
+            Iniciar sesión
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiredDialog;
@@ -613,10 +613,28 @@
 
 // export default VideoModal;
 
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useCallback } from 'react';
 import '../styles/VideoModal.scss';
-import { FaPlay, FaPause, FaForward, FaBackward, FaExpand, FaClosedCaptioning, FaHeart } from 'react-icons/fa';
-import apiClient from '../services/apiClient';
+import { FaPlay, FaPause, FaForward, FaBackward, FaExpand, FaClosedCaptioning, FaHeart, FaCog, FaVolumeUp, FaVolumeDown, FaVolumeMute, FaWindowMinimize, FaExpandAlt, FaTimes, FaStepForward } from 'react-icons/fa';
+import { MdPictureInPictureAlt } from 'react-icons/md';
+import favoritesService from '../services/favoritesService';
+import { isAbortError } from '../services/apiClient';
+import subtitleService, { stripCueMarkup } from '../services/subtitleService';
+import type { SubtitleLanguage } from '../services/subtitleService';
+import { DEFAULT_PREFERENCES } from '../services/preferencesService';
+import progressService, { isResumable } from '../services/progressService';
+import storyboardService from '../services/storyboardService';
+import type { Storyboard } from '../services/storyboardService';
+import type { WatchProgress } from '../services/progressService';
+import activityService from '../services/activityService';
+import { usePreference } from '../hooks/usePreference';
+import { useAdaptiveStreaming } from '../hooks/useAdaptiveStreaming';
+import CaptionOverlay from './CaptionOverlay';
+import CaptionSettingsPanel from './CaptionSettingsPanel';
+import SeekBar from './SeekBar';
+import { formatTime } from '../utils/formatTime';
+import type { PlayerMedia, PlayerMode } from '../contexts/PlayerContext';
+import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router';
 
 interface VideoModalProps {
@@ -625,27 +643,68 @@ interface VideoModalProps {
   movieId: string;
   onClose: () => void;
   onFavoriteChange?: (movieId: string, isFavorite: boolean, favoriteId?: string) => void;
+  /** Position (seconds) to start from. When set, the "continue watching" prompt is skipped. */
+  startAt?: number;
+  /** Full modal (default) or floating mini-player. The video keeps playing when switching. */
+  mode?: PlayerMode;
+  /** Shrinks the player into the mini-player. Without it, leaving the modal closes the player. */
+  onMinimize?: () => void;
+  /** Brings the mini-player back to the full modal. */
+  onExpand?: () => void;
+  /** Resolves the movie to suggest when this one ends. Autoplay is disabled without it. */
+  getNextMovie?: () => Promise<PlayerMedia | null>;
+  /** Starts playing the suggested movie. */
+  onPlayNext?: (media: PlayerMedia) => void;
 }
 
-interface Favorite {
-  userId: string;
-  movieId: string;
-  _id: string;
-  createdAt: string;
-  updatedAt: string;
-}
+/** Minimum time (ms) between two automatic saves of the playback position. */
+const PROGRESS_SAVE_INTERVAL = 10000;
+
+/** Speeds offered in the speed menu and cycled with the `<`/`>` shortcuts. */
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+/** Volume change applied by the ↑/↓ shortcuts. */
+const VOLUME_STEP = 0.1;
+
+/** How long (ms) the volume/speed notice stays on screen after a shortcut. */
+const PLAYBACK_NOTICE_DURATION = 1200;
+
+/** Seconds shown in the "up next" countdown before the next movie starts. */
+const AUTOPLAY_COUNTDOWN = 10;
+
+const formatRate = (rate: number) => (rate === 1 ? 'Normal' : `${rate}x`);
 
-const formatTime = (s: number) => {
-  if (!isFinite(s)) return '0:00';
-  const minutes = Math.floor(s / 60);
-  const seconds = Math.floor(s % 60).toString().padStart(2, '0');
-  return `${minutes}:${seconds}`;
+/**
+ * Seeks to a position as soon as the video metadata is available.
+ */
+const seekWhenReady = (video: HTMLVideoElement, position: number) => {
+  if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+    video.currentTime = position;
+  } else {
+    video.addEventListener('loadedmetadata', () => { video.currentTime = position; }, { once: true });
+  }
 };
 
-const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClose, onFavoriteChange }) => {
+const VideoModal: React.FC<VideoModalProps> = ({
+  videoUrl,
+  title,
+  movieId,
+  onClose,
+  onFavoriteChange,
+  startAt,
+  mode = 'modal',
+  onMinimize,
+  onExpand,
+  getNextMovie,
+  onPlayNext,
+}) => {
   const videoRef = useRef<HTMLVideoElement | null>(null);
-  const progressRef = useRef<HTMLDivElement | null>(null);
+  const videoAreaRef = useRef<HTMLDivElement | null>(null);
   const rafRef = useRef<number | null>(null);
+  const lastProgressSaveRef = useRef(0);
+  const noticeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // True while the user has not answered the resume prompt: the position must not be saved yet
+  const resumePendingRef = useRef(false);
   const navigate = useNavigate();
 
   const [isPlaying, setIsPlaying] = useState(true);
@@ -658,72 +717,193 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
   // States for subtitles
   const [captionsEnabled, setCaptionsEnabled] = useState(false);
   const [showSubtitleMenu, setShowSubtitleMenu] = useState(false);
-  const [selectedSubtitle, setSelectedSubtitle] = useState<string | null>(null); // "es", "en" or null
-  const [subtitleUrls, setSubtitleUrls] = useState<{ es?: string; en?: string }>({});
+  const [selectedSubtitle, setSelectedSubtitle] = useState<string | null>(null); // language code or null
+  const [subtitleLanguages, setSubtitleLanguages] = useState<SubtitleLanguage[]>([]);
+  const [subtitleUrls, setSubtitleUrls] = useState<Record<string, string>>({});
   const [loadingSubtitles, setLoadingSubtitles] = useState(false);
+  const [activeCues, setActiveCues] = useState<string[]>([]);
+  const [showCaptionSettings, setShowCaptionSettings] = useState(false);
+  const [captionStyle, setCaptionStyle] = usePreference('captions');
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  // Adaptive streaming (HLS/DASH) and manual quality selection
+  const { streamType, levels, selectedLevel, activeLevel, setLevel } = useAdaptiveStreaming(videoRef, videoUrl);
+  const [showQualityMenu, setShowQualityMenu] = useState(false);
+
+  // Volume and speed (persisted between sessions)
+  const [playback, setPlayback] = usePreference('playback');
+  const [showSpeedMenu, setShowSpeedMenu] = useState(false);
+  const [playbackNotice, setPlaybackNotice] = useState<string | null>(null);
+
+  // Watch progress
+  const [resumePrompt, setResumePrompt] = useState<WatchProgress | null>(null);
+
+  // Preview thumbnails for the seek bar (optional, depends on the backend)
+  const [storyboard, setStoryboard] = useState<Storyboard | null>(null);
+
+  // Mini-player and native Picture-in-Picture
+  const isMini = mode === 'mini';
+  const pipSupported = typeof document !== 'undefined' && document.pictureInPictureEnabled;
+  const [isPip, setIsPip] = useState(false);
+
+  // Autoplay of the next movie
+  const [autoplayNext, setAutoplayNext] = usePreference('autoplayNext');
+  const [upNext, setUpNext] = useState<PlayerMedia | null>(null);
+  const [upNextCountdown, setUpNextCountdown] = useState(AUTOPLAY_COUNTDOWN);
+  const canAutoplay = Boolean(getNextMovie && onPlayNext);
 
   /**
-   * Fetches subtitles in both languages from the backend.
-   * Creates VTT blob URLs for each language.
+   * Saves the current playback position, unless the resume prompt is still open.
+   */
+  const saveProgress = useCallback((video: HTMLVideoElement | null = videoRef.current) => {
+    if (!video || resumePendingRef.current || !video.currentTime) return;
+    lastProgressSaveRef.current = performance.now();
+    progressService.save(movieId, video.currentTime, video.duration);
+  }, [movieId]);
+
+  /**
+   * Restores the watch progress of the movie and saves it when playback pauses
+   * or the modal closes. With `startAt` the video jumps straight to that
+   * position; otherwise a saved position opens the "continue watching" prompt.
    */
   useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !movieId) return;
+    let cancelled = false;
+
+    if (startAt !== undefined) {
+      seekWhenReady(video, startAt);
+    } else {
+      resumePendingRef.current = true;
+      progressService
+        .get(movieId)
+        .then((progress) => {
+          if (cancelled) return;
+          if (progress && isResumable(progress) && video.currentTime < progress.position) {
+            video.pause();
+            setIsPlaying(false);
+            setResumePrompt(progress);
+          } else {
+            resumePendingRef.current = false;
+          }
+        })
+        .catch(() => {
+          resumePendingRef.current = false;
+        });
+    }
+
+    // Also on `ended`, so finished movies drop out of the saved progress
+    const onPause = () => saveProgress(video);
+    video.addEventListener('pause', onPause);
+    video.addEventListener('ended', onPause);
+
+    return () => {
+      cancelled = true;
+      video.removeEventListener('pause', onPause);
+      video.removeEventListener('ended', onPause);
+      saveProgress(video);
+      resumePendingRef.current = false;
+      setResumePrompt(null);
+    };
+  }, [movieId, startAt, saveProgress]);
+
+  /**
+   * Answers the resume prompt: continues from the saved position or from the start.
+   */
+  const answerResumePrompt = (resume: boolean) => {
+    const video = videoRef.current;
+    if (!video || !resumePrompt) return;
+    seekWhenReady(video, resume ? resumePrompt.position : 0);
+    resumePendingRef.current = false;
+    setResumePrompt(null);
+    video.play().catch(() => { });
+    setIsPlaying(true);
+  };
+
+  /**
+   * Asks the backend which subtitle languages exist for the movie and fetches each one.
+   * Each payload (WebVTT, SRT or JSON cues) is parsed into timed cues and
+   * exposed to the `<track>` elements as a WebVTT blob URL.
+   */
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+
     const fetchSubtitles = async () => {
       setLoadingSubtitles(true);
-      try {
-        // Fetch English subtitles
-        const responseEn = await apiClient.get<{ subtitle: string; language: string }>(
-          `/api/v1/sb/${movieId}/subtitles/en`
-        );
-        
-        // Fetch Spanish subtitles
-        const responseEs = await apiClient.get<{ subtitle: string; language: string }>(
-          `/api/v1/sb/${movieId}/subtitles/es`
-        );
-
-        const urls: { es?: string; en?: string } = {};
-
-        // Create VTT for English
-        if (responseEn.subtitle) {
-          const vttContentEn = `WEBVTT\n\n00:00:00.000 --> 00:00:10.000\n${responseEn.subtitle}`;
-          const blobEn = new Blob([vttContentEn], { type: "text/vtt" });
-          urls.en = URL.createObjectURL(blobEn);
-        }
-
-        // Create VTT for Spanish
-        if (responseEs.subtitle) {
-          const vttContentEs = `WEBVTT\n\n00:00:00.000 --> 00:00:10.000\n${responseEs.subtitle}`;
-          const blobEs = new Blob([vttContentEs], { type: "text/vtt" });
-          urls.es = URL.createObjectURL(blobEs);
-        }
+      setSubtitleUrls({});
+      const languages = await subtitleService.getLanguages(movieId);
+      if (cancelled) return;
+      setSubtitleLanguages(languages);
+
+      const urls: Record<string, string> = {};
+      await Promise.all(
+        languages.map(async ({ code }) => {
+          try {
+            const cues = await subtitleService.getCues(movieId, code);
+            if (cancelled || cues.length === 0) return;
+            const url = subtitleService.createTrackUrl(cues);
+            created.push(url);
+            urls[code] = url;
+          } catch (error) {
+            console.error(`Error al obtener subtítulos (${code}):`, error);
+          }
+        })
+      );
 
-        setSubtitleUrls(urls);
-      } catch (error) {
-        console.error("Error al obtener subtítulos:", error);
-        setSubtitleUrls({});
-      } finally {
-        setLoadingSubtitles(false);
-      }
+      if (cancelled) return;
+      setSubtitleUrls(urls);
+      setLoadingSubtitles(false);
     };
 
     if (movieId) fetchSubtitles();
 
     return () => {
+      cancelled = true;
       // Clean up blob URLs
-      if (subtitleUrls.en) URL.revokeObjectURL(subtitleUrls.en);
-      if (subtitleUrls.es) URL.revokeObjectURL(subtitleUrls.es);
+      created.forEach((url) => URL.revokeObjectURL(url));
     };
   }, [movieId]);
 
+  /**
+   * Renders the selected track through the custom caption overlay.
+   * The track is kept in `hidden` mode so the browser loads its cues and fires
+   * `cuechange` without drawing them itself; every other track is disabled.
+   */
   useEffect(() => {
-    const fetchFavoriteStatus = async () => {
-      const userString = localStorage.getItem('user');
-      const userId = userString ? JSON.parse(userString).id : null;
+    const video = videoRef.current;
+    if (!video) return;
+
+    const tracks = Array.from(video.textTracks);
+    const track = selectedSubtitle ? tracks.find((t) => t.language === selectedSubtitle) : undefined;
+    tracks.forEach((t) => {
+      t.mode = t === track ? 'hidden' : 'disabled';
+    });
+
+    if (!track) {
+      setActiveCues([]);
+      return;
+    }
+
+    const onCueChange = () => {
+      const cues = track.activeCues ? Array.from(track.activeCues) : [];
+      setActiveCues(cues.map((cue) => stripCueMarkup((cue as VTTCue).text)));
+    };
 
+    onCueChange();
+    track.addEventListener('cuechange', onCueChange);
+    return () => track.removeEventListener('cuechange', onCueChange);
+  }, [selectedSubtitle, subtitleUrls]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchFavoriteStatus = async () => {
       if (!userId || !movieId) return;
 
       try {
-        const favorites = await apiClient.get<Favorite[]>(`/api/v1/favorites/user/${userId}`);
-        const existingFavorite = favorites.find((fav: Favorite) => fav.movieId === movieId);
+        const favorites = await favoritesService.getFavorites(userId, controller.signal);
+        const existingFavorite = favorites.find((fav) => fav.movieId === movieId);
         if (existingFavorite) {
           setIsFavorite(true);
           setFavoriteId(existingFavorite._id);
@@ -732,21 +912,47 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
           setFavoriteId(null);
         }
       } catch (error) {
+        if (isAbortError(error)) return;
         console.error('Error al verificar favorito:', error);
       }
     };
 
     fetchFavoriteStatus();
+    return () => controller.abort();
+  }, [movieId, userId]);
+
+  /**
+   * Loads the storyboard used for the seek bar thumbnails, if the movie has one.
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+    setStoryboard(null);
+    storyboardService.get(movieId, controller.signal).then((result) => {
+      if (!controller.signal.aborted) setStoryboard(result);
+    });
+    return () => controller.abort();
   }, [movieId]);
 
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
+      // The mini-player must not steal the keyboard from the page underneath
+      if (isMini) return;
       const target = e.target as HTMLElement;
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      // While the resume prompt is open only its buttons (and Escape) are active
+      if (resumePrompt && e.key !== 'Escape') return;
 
       switch (e.key) {
         case 'Escape':
-          if (showSubtitleMenu) {
+          if (showCaptionSettings) {
+            setShowCaptionSettings(false);
+          } else if (upNext) {
+            setUpNext(null);
+          } else if (showQualityMenu) {
+            setShowQualityMenu(false);
+          } else if (showSpeedMenu) {
+            setShowSpeedMenu(false);
+          } else if (showSubtitleMenu) {
             setShowSubtitleMenu(false);
           } else {
             onClose();
@@ -787,12 +993,7 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
         case 's':
         case 'S':
           e.preventDefault();
-          selectSubtitle(captionsEnabled ? null : 'es');
-          break;
-        case 'd':
-        case 'D':
-          e.preventDefault();
-          selectSubtitle(captionsEnabled ? null : 'en');
+          cycleSubtitle();
           break;
         case 'l':
         case 'L':
@@ -809,11 +1010,116 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
           e.preventDefault();
           handleBackward();
           break;
+        case 'm':
+        case 'M':
+          e.preventDefault();
+          toggleMute();
+          break;
+        case 'ArrowUp':
+          e.preventDefault();
+          changeVolume(playback.volume + VOLUME_STEP, true);
+          break;
+        case 'ArrowDown':
+          e.preventDefault();
+          changeVolume(playback.volume - VOLUME_STEP, true);
+          break;
+        case '>':
+          e.preventDefault();
+          changeSpeed(1);
+          break;
+        case '<':
+          e.preventDefault();
+          changeSpeed(-1);
+          break;
       }
     };
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
-  }, [isPlaying, isFavorite, showSubtitleMenu]);
+  }, [isPlaying, isFavorite, showSubtitleMenu, showCaptionSettings, showQualityMenu, showSpeedMenu, playback, resumePrompt, isMini, upNext, captionsEnabled, selectedSubtitle, subtitleLanguages, subtitleUrls]);
+
+  /**
+   * When the video ends, looks up the next movie and shows the "up next"
+   * overlay. Playing again (e.g. seeking back) dismisses it.
+   */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !autoplayNext || !getNextMovie) return;
+
+    let cancelled = false;
+    const onEnded = () => {
+      getNextMovie().then((next) => {
+        if (cancelled || !next) return;
+        setUpNextCountdown(AUTOPLAY_COUNTDOWN);
+        setUpNext(next);
+      });
+    };
+    const onPlay = () => setUpNext(null);
+
+    video.addEventListener('ended', onEnded);
+    video.addEventListener('play', onPlay);
+    return () => {
+      cancelled = true;
+      video.removeEventListener('ended', onEnded);
+      video.removeEventListener('play', onPlay);
+    };
+  }, [autoplayNext, getNextMovie]);
+
+  /**
+   * Counts down while the "up next" overlay is shown and then plays the movie.
+   */
+  useEffect(() => {
+    if (!upNext) return;
+    if (upNextCountdown <= 0) {
+      onPlayNext?.(upNext);
+      return;
+    }
+    const timer = setTimeout(() => setUpNextCountdown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [upNext, upNextCountdown, onPlayNext]);
+
+  /**
+   * Closes any open menu when the player shrinks into the mini-player.
+   */
+  useEffect(() => {
+    if (!isMini) return;
+    setShowSubtitleMenu(false);
+    setShowCaptionSettings(false);
+    setShowQualityMenu(false);
+    setShowSpeedMenu(false);
+  }, [isMini]);
+
+  /**
+   * Tracks native Picture-in-Picture, which can also be left from the browser's own window.
+   */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !pipSupported) return;
+    const onEnter = () => setIsPip(true);
+    const onLeave = () => setIsPip(false);
+    video.addEventListener('enterpictureinpicture', onEnter);
+    video.addEventListener('leavepictureinpicture', onLeave);
+    return () => {
+      video.removeEventListener('enterpictureinpicture', onEnter);
+      video.removeEventListener('leavepictureinpicture', onLeave);
+    };
+  }, [pipSupported]);
+
+  /**
+   * Applies the persisted volume and speed to the video. The default rate is
+   * set as well so the speed survives source reloads by the streaming engines.
+   */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.volume = playback.volume;
+    video.muted = playback.muted;
+    video.defaultPlaybackRate = playback.rate;
+    video.playbackRate = playback.rate;
+  }, [playback]);
+
+  useEffect(() => () => {
+    if (noticeTimeoutRef.current) clearTimeout(noticeTimeoutRef.current);
+  }, []);
 
   useEffect(() => {
     const video = videoRef.current;
@@ -854,6 +1160,9 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
     const tick = () => {
       if (video) {
         setCurrent(video.currentTime || 0);
+        if (performance.now() - lastProgressSaveRef.current > PROGRESS_SAVE_INTERVAL) {
+          saveProgress(video);
+        }
         rafRef.current = requestAnimationFrame(tick);
       }
     };
@@ -873,7 +1182,34 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
         rafRef.current = null;
       }
     };
-  }, [isPlaying, duration]);
+  }, [isPlaying, duration, movieId, saveProgress]);
+
+  // Watching a movie is not inactivity: keep the session alive while it plays.
+  // Follows the element itself, since `isPlaying` stays true when autoplay is blocked
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let release: (() => void) | null = null;
+    const onPlaying = () => {
+      release ??= activityService.hold();
+    };
+    const onStopped = () => {
+      release?.();
+      release = null;
+    };
+
+    if (!video.paused && !video.ended) onPlaying();
+    video.addEventListener('playing', onPlaying);
+    video.addEventListener('pause', onStopped);
+    video.addEventListener('ended', onStopped);
+    return () => {
+      video.removeEventListener('playing', onPlaying);
+      video.removeEventListener('pause', onStopped);
+      video.removeEventListener('ended', onStopped);
+      onStopped();
+    };
+  }, []);
 
   const togglePlay = () => {
     const video = videoRef.current;
@@ -895,14 +1231,77 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
     if (videoRef.current) videoRef.current.currentTime = Math.max((videoRef.current.currentTime || 0) - 10, 0);
   };
 
-  const handleFullscreen = async () => {
+  /**
+   * Briefly shows a message over the video (used for keyboard volume/speed changes)
+   */
+  const showPlaybackNotice = (message: string) => {
+    setPlaybackNotice(message);
+    if (noticeTimeoutRef.current) clearTimeout(noticeTimeoutRef.current);
+    noticeTimeoutRef.current = setTimeout(() => setPlaybackNotice(null), PLAYBACK_NOTICE_DURATION);
+  };
+
+  /**
+   * Sets the volume (0-1). Dropping it to 0 mutes, raising it unmutes.
+   */
+  const changeVolume = (volume: number, announce = false) => {
+    const next = Math.round(Math.min(1, Math.max(0, volume)) * 100) / 100;
+    setPlayback({ ...playback, volume: next, muted: next === 0 });
+    if (announce) showPlaybackNotice(`Volumen ${Math.round(next * 100)}%`);
+  };
+
+  const toggleMute = () => {
+    const muted = !playback.muted;
+    // Unmuting at volume 0 would still be silent, so restore an audible level
+    const volume = !muted && playback.volume === 0 ? 0.5 : playback.volume;
+    setPlayback({ ...playback, muted, volume });
+    showPlaybackNotice(muted ? 'Silenciado' : `Volumen ${Math.round(volume * 100)}%`);
+  };
+
+  const selectSpeed = (rate: number) => {
+    setPlayback({ ...playback, rate });
+    setShowSpeedMenu(false);
+  };
+
+  /**
+   * Moves to the next (1) or previous (-1) speed in PLAYBACK_RATES
+   */
+  const changeSpeed = (step: 1 | -1) => {
+    const index = PLAYBACK_RATES.indexOf(playback.rate);
+    const from = index === -1 ? PLAYBACK_RATES.indexOf(1) : index;
+    const rate = PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, from + step))];
+    selectSpeed(rate);
+    showPlaybackNotice(`Velocidad ${formatRate(rate)}`);
+  };
+
+  const toggleAutoplay = () => {
+    // Turning autoplay off also cancels a countdown in progress
+    if (autoplayNext) setUpNext(null);
+    setAutoplayNext(!autoplayNext);
+  };
+
+  const togglePictureInPicture = async () => {
     const video = videoRef.current;
     if (!video) return;
+    try {
+      if (document.pictureInPictureElement) {
+        await document.exitPictureInPicture();
+      } else {
+        await video.requestPictureInPicture();
+      }
+    } catch (err) {
+      console.warn('Picture-in-Picture error', err);
+    }
+  };
+
+  const handleFullscreen = async () => {
+    // The whole video area goes fullscreen so custom captions and controls stay visible
+    const area = videoAreaRef.current;
+    if (!area) return;
     try {
       if (document.fullscreenElement) {
         await document.exitFullscreen();
       } else {
-        await video.requestFullscreen();
+        await area.requestFullscreen();
       }
     } catch (err) {
       console.warn('Fullscreen error', err);
@@ -910,49 +1309,59 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
   };
 
   /**
-   * Selects a subtitle language and activates the corresponding track
+   * Selects a subtitle language by matching it against the tracks' `srclang`.
+   * Passing `null` (or a language without a loaded track) turns captions off.
    */
   const selectSubtitle = (lang: string | null) => {
     const video = videoRef.current;
     if (!video) return;
 
-    setSelectedSubtitle(lang);
+    const found = lang !== null && Array.from(video.textTracks).some((track) => track.language === lang);
+    setSelectedSubtitle(found ? lang : null);
+    setCaptionsEnabled(found);
     setShowSubtitleMenu(false);
+  };
 
-    // Disable all tracks first
-    for (let i = 0; i < video.textTracks.length; i++) {
-      video.textTracks[i].mode = 'hidden';
-    }
+  /** Subtitle languages of the movie with a loaded track, in menu order. */
+  const availableSubtitles = subtitleLanguages.filter(({ code }) => subtitleUrls[code]);
 
-    // Enable selected track
-    if (lang && video.textTracks.length > 0) {
-      const trackIndex = lang === 'es' ? 0 : 1; // Based on order in <video>
-      if (video.textTracks[trackIndex]) {
-        video.textTracks[trackIndex].mode = 'showing';
-        setCaptionsEnabled(true);
-      }
-    } else {
-      setCaptionsEnabled(false);
-    }
+  /**
+   * Moves to the next available subtitle language, and from the last one back
+   * to no subtitles (S shortcut).
+   */
+  const cycleSubtitle = () => {
+    if (availableSubtitles.length === 0) return;
+    const index = captionsEnabled ? availableSubtitles.findIndex(({ code }) => code === selectedSubtitle) : -1;
+    selectSubtitle(availableSubtitles[index + 1]?.code ?? null);
   };
 
-  const toggleFavorite = async () => {
-    const userString = localStorage.getItem('user');
-    const userId = userString ? JSON.parse(userString).id : null;
+  /**
+   * Selects a stream quality (-1 for automatic) and closes the quality menu
+   */
+  const selectQuality = (index: number) => {
+    setLevel(index);
+    setShowQualityMenu(false);
+  };
 
+  const openCaptionSettings = () => {
+    setShowSubtitleMenu(false);
+    setShowCaptionSettings(true);
+  };
+
+  const toggleFavorite = async () => {
     if (!userId) {
-      console.warn('No se encontró el usuario en localStorage');
+      console.warn('No hay una sesión iniciada');
       return;
     }
 
     try {
       if (isFavorite && favoriteId) {
-        await apiClient.delete(`/api/v1/favorites/movie/${favoriteId}`);
+        await favoritesService.remove(userId, favoriteId);
         setIsFavorite(false);
         if (typeof onFavoriteChange === 'function') onFavoriteChange(movieId, false, favoriteId);
         setFavoriteId(null);
       } else {
-        const response = await apiClient.post<Favorite>('/api/v1/favorites', { userId, movieId });
+        const response = await favoritesService.add(userId, movieId);
         setIsFavorite(true);
         setFavoriteId(response._id);
         if (typeof onFavoriteChange === 'function') onFavoriteChange(movieId, true, response._id);
@@ -963,32 +1372,34 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
   };
 
   const handleOverlayClick = (e: React.MouseEvent) => {
-    if (showSubtitleMenu) {
+    if (showSubtitleMenu || showCaptionSettings || showQualityMenu || showSpeedMenu) {
       setShowSubtitleMenu(false);
+      setShowCaptionSettings(false);
+      setShowQualityMenu(false);
+      setShowSpeedMenu(false);
       return;
     }
     e.stopPropagation();
-    onClose();
+    // Clicking outside the modal keeps the video playing in the mini-player
+    if (onMinimize) onMinimize();
+    else onClose();
   };
 
   const handleContentClick = (e: React.MouseEvent) => {
     e.stopPropagation();
   };
 
-  const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    const pr = progressRef.current;
+  const handleSeek = (time: number) => {
     const video = videoRef.current;
-    if (!pr || !video) return;
-    const rect = pr.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const pct = Math.max(0, Math.min(1, x / rect.width));
-    video.currentTime = pct * duration;
-    setCurrent(pct * duration);
+    if (!video) return;
+    video.currentTime = time;
+    setCurrent(time);
   };
 
   const goToDetails = () => {
     try {
-      onClose();
+      if (onMinimize) onMinimize();
+      else onClose();
     } catch (e) {
       /* ignore */
     }
@@ -996,11 +1407,26 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
   };
 
   return (
-    <div className="video-modal-overlay" onClick={handleOverlayClick} role="dialog" aria-modal="true" aria-label={`Reproductor: ${title}`}>
+    <div
+      className={`video-modal-overlay ${isMini ? 'mini' : ''}`}
+      onClick={isMini ? undefined : handleOverlayClick}
+      role={isMini ? 'region' : 'dialog'}
+      aria-modal={isMini ? undefined : true}
+      aria-label={isMini ? `Mini reproductor: ${title}` : `Reproductor: ${title}`}
+    >
       <div className="video-modal-content" onClick={handleContentClick}>
-        <button className="close-button" aria-label="Cerrar" onClick={onClose}>×</button>
+        {!isMini && (
+          <div className="modal-header-actions">
+            {onMinimize && (
+              <button className="minimize-button" aria-label="Minimizar reproductor" title="Minimizar" onClick={onMinimize}>
+                <FaWindowMinimize />
+              </button>
+            )}
+            <button className="close-button" aria-label="Cerrar" onClick={onClose}>×</button>
+          </div>
+        )}
 
-        <div className="video-area">
+        <div className="video-area" ref={videoAreaRef}>
           {loadingPoster && (
             <div className="loading-poster" aria-hidden="true">
               <div className="vm-spinner" />
@@ -1014,31 +1440,62 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
             className={`video-player ${loadingPoster ? 'hidden' : ''}`}
             controls={false}
             preload="metadata"
+            onClick={isMini ? onExpand : undefined}
           >
-            <source src={videoUrl} type="video/mp4" />
-            {subtitleUrls.es && (
+            {/* Adaptive manifests are attached by useAdaptiveStreaming */}
+            {streamType === 'progressive' && <source src={videoUrl} type="video/mp4" />}
+            {subtitleLanguages.map(({ code, label }) => subtitleUrls[code] && (
               <track
+                key={code}
                 kind="subtitles"
-                srcLang="es"
-                label="Español"
-                src={subtitleUrls.es}
+                srcLang={code}
+                label={label}
+                src={subtitleUrls[code]}
               />
-            )}
-            {subtitleUrls.en && (
-              <track
-                kind="subtitles"
-                srcLang="en"
-                label="English"
-                src={subtitleUrls.en}
-              />
-            )}
+            ))}
             Tu navegador no soporta la reproducción de video.
           </video>
 
-          <div className="media-overlay" aria-hidden={loadingPoster}>
-            <div className="progress" ref={progressRef} onClick={handleProgressClick}>
-              <div className="progress-bar" style={{ width: `${duration ? (current / duration) * 100 : 0}%` }} />
+          <CaptionOverlay cues={activeCues} captionStyle={captionStyle} />
+
+          {upNext && (
+            <div className="up-next" role="dialog" aria-label="Siguiente película">
+              {upNext.imageUrl && <img className="up-next-thumb" src={upNext.imageUrl} alt="" />}
+              <div className="up-next-info">
+                <p className="up-next-label" aria-live="polite">A continuación en {upNextCountdown} s</p>
+                <h3 className="up-next-title">{upNext.title}</h3>
+                <div className="up-next-actions">
+                  <button className="up-next-play" onClick={() => onPlayNext?.(upNext)} autoFocus={!isMini}>
+                    <FaPlay /> Reproducir ahora
+                  </button>
+                  <button className="up-next-cancel" onClick={() => setUpNext(null)}>
+                    Cancelar
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {playbackNotice && (
+            <div className="playback-notice" role="status">{playbackNotice}</div>
+          )}
+
+          {resumePrompt && (
+            <div className="resume-prompt" role="dialog" aria-label="Reanudar reproducción">
+              <p className="resume-prompt-text">Ya empezaste a ver esta película.</p>
+              <div className="resume-prompt-actions">
+                <button className="resume-continue" onClick={() => answerResumePrompt(true)} autoFocus>
+                  Continuar desde {formatTime(resumePrompt.position)}
+                </button>
+                <button className="resume-restart" onClick={() => answerResumePrompt(false)}>
+                  Empezar de nuevo
+                </button>
+              </div>
             </div>
+          )}
+
+          <div className="media-overlay" aria-hidden={loadingPoster}>
+            <SeekBar current={current} duration={duration} onSeek={handleSeek} storyboard={storyboard} />
 
             <div className="controls-row">
               <div className="left-controls">
@@ -1047,6 +1504,28 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
                   {isPlaying ? <FaPause /> : <FaPlay />}
                 </button>
                 <button className="ctrl" onClick={handleForward} aria-label="Adelantar 10 segundos"><FaForward /></button>
+
+                <div className="volume-control">
+                  <button
+                    className="ctrl"
+                    onClick={toggleMute}
+                    aria-pressed={playback.muted}
+                    aria-label={playback.muted ? 'Activar sonido' : 'Silenciar'}
+                  >
+                    {playback.muted || playback.volume === 0 ? <FaVolumeMute /> : playback.volume < 0.5 ? <FaVolumeDown /> : <FaVolumeUp />}
+                  </button>
+                  <input
+                    type="range"
+                    className="volume-slider"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={playback.muted ? 0 : playback.volume}
+                    onChange={(e) => changeVolume(Number(e.target.value))}
+                    aria-label="Volumen"
+                    aria-valuetext={`${Math.round((playback.muted ? 0 : playback.volume) * 100)}%`}
+                  />
+                </div>
               </div>
 
               <div className="center-info">
@@ -1055,12 +1534,108 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
 
               <div className="right-controls">
                 <button className="ctrl" onClick={handleFullscreen} aria-label="Pantalla completa"><FaExpand /></button>
+
+                {pipSupported && (
+                  <button
+                    className={`ctrl pip ${isPip ? 'active' : ''}`}
+                    onClick={togglePictureInPicture}
+                    aria-pressed={isPip}
+                    aria-label={isPip ? 'Salir de imagen en imagen' : 'Imagen en imagen'}
+                  >
+                    <MdPictureInPictureAlt />
+                  </button>
+                )}
+
+                {/* Playback speed selector */}
+                <div className="subtitle-menu-container">
+                  <button
+                    className={`ctrl speed ${playback.rate !== 1 ? 'active' : ''}`}
+                    onClick={() => {
+                      setShowSubtitleMenu(false);
+                      setShowCaptionSettings(false);
+                      setShowQualityMenu(false);
+                      setShowSpeedMenu(!showSpeedMenu);
+                    }}
+                    aria-haspopup="menu"
+                    aria-expanded={showSpeedMenu}
+                    aria-label={`Velocidad de reproducción: ${formatRate(playback.rate)}`}
+                  >
+                    {playback.rate}x
+                  </button>
+
+                  {showSpeedMenu && (
+                    <div className="subtitle-menu speed-menu" role="menu" onClick={(e) => e.stopPropagation()}>
+                      <div className="subtitle-menu-header">Velocidad</div>
+                      {PLAYBACK_RATES.map((rate) => (
+                        <button
+                          key={rate}
+                          role="menuitemradio"
+                          aria-checked={playback.rate === rate}
+                          className={`subtitle-option ${playback.rate === rate ? 'selected' : ''}`}
+                          onClick={() => selectSpeed(rate)}
+                        >
+                          {formatRate(rate)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Quality selector, only for adaptive streams with several renditions */}
+                {levels.length > 1 && (
+                  <div className="subtitle-menu-container">
+                    <button
+                      className={`ctrl quality ${selectedLevel !== -1 ? 'active' : ''}`}
+                      onClick={() => {
+                        setShowSubtitleMenu(false);
+                        setShowCaptionSettings(false);
+                        setShowSpeedMenu(false);
+                        setShowQualityMenu(!showQualityMenu);
+                      }}
+                      aria-haspopup="menu"
+                      aria-expanded={showQualityMenu}
+                      aria-label="Calidad de video"
+                    >
+                      <FaCog />
+                    </button>
+
+                    {showQualityMenu && (
+                      <div className="subtitle-menu quality-menu" role="menu" onClick={(e) => e.stopPropagation()}>
+                        <div className="subtitle-menu-header">Calidad</div>
+                        <button
+                          role="menuitemradio"
+                          aria-checked={selectedLevel === -1}
+                          className={`subtitle-option ${selectedLevel === -1 ? 'selected' : ''}`}
+                          onClick={() => selectQuality(-1)}
+                        >
+                          Automática{selectedLevel === -1 && levels[activeLevel] ? ` (${levels[activeLevel].label})` : ''}
+                        </button>
+                        {[...levels].sort((a, b) => b.height - a.height || b.bitrate - a.bitrate).map((level) => (
+                          <button
+                            key={level.index}
+                            role="menuitemradio"
+                            aria-checked={selectedLevel === level.index}
+                            className={`subtitle-option ${selectedLevel === level.index ? 'selected' : ''}`}
+                            onClick={() => selectQuality(level.index)}
+                          >
+                            {level.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
                 
                 {/* Subtitles button with menu */}
                 <div className="subtitle-menu-container">
                   <button
                     className={`ctrl captions ${captionsEnabled ? 'active' : ''}`}
-                    onClick={() => setShowSubtitleMenu(!showSubtitleMenu)}
+                    onClick={() => {
+                      setShowCaptionSettings(false);
+                      setShowQualityMenu(false);
+                      setShowSpeedMenu(false);
+                      setShowSubtitleMenu(!showSubtitleMenu);
+                    }}
                     aria-pressed={captionsEnabled}
                     aria-label="Menú de subtítulos"
                   >
@@ -1076,28 +1651,50 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
                       >
                         Desactivado
                       </button>
-                      {subtitleUrls.es && (
-                        <button 
-                          className={`subtitle-option ${selectedSubtitle === 'es' ? 'selected' : ''}`}
-                          onClick={() => selectSubtitle('es')}
-                          disabled={loadingSubtitles}
-                        >
-                          ESP Español {loadingSubtitles && '(cargando...)'}
-                        </button>
-                      )}
-                      {subtitleUrls.en && (
-                        <button 
-                          className={`subtitle-option ${selectedSubtitle === 'en' ? 'selected' : ''}`}
-                          onClick={() => selectSubtitle('en')}
-                          disabled={loadingSubtitles}
-                        >
-                          ENG English {loadingSubtitles && '(cargando...)'}
-                        </button>
+                      {subtitleLanguages
+                        .filter(({ code }) => loadingSubtitles || subtitleUrls[code])
+                        .map(({ code, label }) => (
+                          <button
+                            key={code}
+                            className={`subtitle-option ${selectedSubtitle === code ? 'selected' : ''}`}
+                            onClick={() => selectSubtitle(code)}
+                            disabled={loadingSubtitles}
+                            lang={code}
+                          >
+                            {code.toUpperCase()} {label} {loadingSubtitles && '(cargando...)'}
+                          </button>
+                        ))}
+                      {!loadingSubtitles && subtitleLanguages.every(({ code }) => !subtitleUrls[code]) && (
+                        <div className="subtitle-empty">Sin subtítulos disponibles</div>
                       )}
+                      <button className="subtitle-option subtitle-customize" onClick={openCaptionSettings}>
+                        Personalizar estilo…
+                      </button>
                     </div>
                   )}
+
+                  {showCaptionSettings && (
+                    <CaptionSettingsPanel
+                      captionStyle={captionStyle}
+                      onChange={setCaptionStyle}
+                      onReset={() => setCaptionStyle(DEFAULT_PREFERENCES.captions)}
+                      onClose={() => setShowCaptionSettings(false)}
+                    />
+                  )}
                 </div>
 
+                {canAutoplay && (
+                  <button
+                    className={`ctrl autoplay ${autoplayNext ? 'active' : ''}`}
+                    onClick={toggleAutoplay}
+                    aria-pressed={autoplayNext}
+                    aria-label="Reproducción automática de la siguiente película"
+                    title={autoplayNext ? 'Reproducción automática activada' : 'Reproducción automática desactivada'}
+                  >
+                    <FaStepForward />
+                  </button>
+                )}
+
                 <button className={`ctrl favorite ${isFavorite ? 'active' : ''}`} onClick={toggleFavorite} aria-pressed={isFavorite} aria-label={isFavorite ? 'Quitar favorito' : 'Añadir favorito'}>
                   <FaHeart />
                 </button>
@@ -1106,6 +1703,22 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
           </div>
         </div>
 
+        {isMini && (
+          <div className="mini-bar">
+            <span className="mini-title" title={title}>{title}</span>
+            <button className="ctrl" onClick={togglePlay} aria-label={isPlaying ? 'Pausar' : 'Reproducir'}>
+              {isPlaying ? <FaPause /> : <FaPlay />}
+            </button>
+            {pipSupported && (
+              <button className={`ctrl pip ${isPip ? 'active' : ''}`} onClick={togglePictureInPicture} aria-pressed={isPip} aria-label="Imagen en imagen">
+                <MdPictureInPictureAlt />
+              </button>
+            )}
+            <button className="ctrl" onClick={onExpand} aria-label="Expandir reproductor"><FaExpandAlt /></button>
+            <button className="ctrl" onClick={onClose} aria-label="Cerrar reproductor"><FaTimes /></button>
+          </div>
+        )}
+
         <div className="meta-row">
           <h2 className="video-title">{title}</h2>
           <div className="preview-actions">
@@ -1114,7 +1727,7 @@ const VideoModal: React.FC<VideoModalProps> = ({ videoUrl, title, movieId, onClo
             </button>
           </div>
           <p className="video-actions-hint">
-            <strong>Atajos de teclado:</strong> Espacio/K: Reproducir/Pausar · F: Favorito · ←/→: Retroceder/Adelantar · I: Ver ficha · C: Abrir subtítulos · Esc: Cerrar · S: Subtítulos en Español · D: Subtítulos en Inglés · N: Desactivar subtítulos
+            <strong>Atajos de teclado:</strong> Espacio/K: Reproducir/Pausar · F: Favorito · ←/→: Retroceder/Adelantar · I: Ver ficha · C: Abrir subtítulos · Esc: Cerrar{availableSubtitles.length > 0 && ` · S: Cambiar subtítulos (${availableSubtitles.map(({ label }) => label).join(', ')})`} · N: Desactivar subtítulos · M: Silenciar · ↑/↓: Volumen · &lt;/&gt;: Velocidad
           </p>
         </div>
       </div>
@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { ReactNode } from 'react';
+import authService from '../services/authService';
+import type { LoginCredentials, User } from '../services/authService';
+
+interface AuthContextType {
+  /** Signed-in user, or `null` if nobody is signed in. */
+  user: User | null;
+  /** `true` until the session has been checked with the backend. */
+  loading: boolean;
+  isAuthenticated: boolean;
+  /** Logs in and resolves with the signed-in user. */
+  login: (credentials: LoginCredentials) => Promise<User | null>;
+  logout: () => Promise<void>;
+  /** Asks the backend again who is signed in. */
+  refresh: () => Promise<User | null>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * AuthProvider Component
+ *
+ * Single source of truth for the session. Checks once with the backend
+ * (`/api/v1/users/me`) who is signed in, and re-renders its consumers whenever
+ * `authService` reports a change (login, logout, profile update, or a session
+ * rejected by the backend).
+ *
+ * @component
+ * @param {AuthProviderProps} props - Component properties
+ * @returns {JSX.Element} The children with access to the session
+ */
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(() => authService.getCurrentUser());
+  const [loading, setLoading] = useState(true);
+  const hydratedRef = useRef(false);
+
+  /**
+   * Mirrors the session kept by authService.
+   * @listens authChanged
+   */
+  useEffect(() => {
+    const sync = () => setUser(authService.getCurrentUser());
+    window.addEventListener('authChanged', sync);
+    return () => window.removeEventListener('authChanged', sync);
+  }, []);
+
+  /** Checks the session with the backend, once per app load. */
+  useEffect(() => {
+    if (hydratedRef.current) return;
+    hydratedRef.current = true;
+    authService
+      .checkAuth()
+      .catch((error) => console.warn('No se pudo verificar la sesión:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const login = useCallback(async (credentials: LoginCredentials) => {
+    await authService.login(credentials);
+    return authService.getCurrentUser();
+  }, []);
+
+  const logout = useCallback(() => authService.logout(), []);
+
+  const refresh = useCallback(() => authService.checkAuth(), []);
+
+  return (
+    <AuthContext.Provider value={{ user, loading, isAuthenticated: Boolean(user), login, logout, refresh }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
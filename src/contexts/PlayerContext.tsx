@@ -0,0 +1,187 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { useLocation } from 'react-router';
+import VideoModal from '../components/VideoModal';
+import movieService from '../services/movieService';
+
+/**
+ * Display mode of the player: full modal or floating mini-player.
+ */
+type PlayerMode = 'modal' | 'mini';
+
+/**
+ * Movie played by the app-level player.
+ *
+ * @interface PlayerMedia
+ * @property {string} movieId - Movie identifier
+ * @property {string} title - Title shown in the player
+ * @property {string} videoUrl - Video source (MP4, HLS or DASH)
+ * @property {string} [imageUrl] - Thumbnail, shown when the movie is suggested as the next one
+ */
+interface PlayerMedia {
+  movieId: string;
+  title: string;
+  videoUrl: string;
+  imageUrl?: string;
+}
+
+/**
+ * Options for opening the player.
+ *
+ * @interface PlayerOpenOptions
+ * @property {number} [startAt] - Position (seconds) to start from, skipping the resume prompt
+ * @property {() => void} [onClose] - Called when the player is closed (from the modal or the mini-player)
+ * @property {Function} [onFavoriteChange] - Called when the movie is added to or removed from favorites
+ * @property {PlayerMedia[]} [queue] - List the movie was opened from; the next movie is taken from it
+ */
+interface PlayerOpenOptions {
+  startAt?: number;
+  onClose?: () => void;
+  onFavoriteChange?: (movieId: string, isFavorite: boolean, favoriteId?: string) => void;
+  queue?: PlayerMedia[];
+}
+
+/** A movie being played, with the options it was opened with. */
+interface PlayerSession extends PlayerMedia, PlayerOpenOptions {
+  /** Unique per opening, so a new movie remounts the player from scratch. */
+  key: number;
+}
+
+interface PlayerContextType {
+  media: PlayerMedia | null;
+  mode: PlayerMode;
+  open: (media: PlayerMedia, options?: PlayerOpenOptions) => void;
+  close: () => void;
+  minimize: () => void;
+  expand: () => void;
+}
+
+const PlayerContext = createContext<PlayerContextType | undefined>(undefined);
+
+interface PlayerProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * PlayerProvider Component
+ *
+ * Owns the video player for the whole app, so playback survives route changes.
+ * The player opens as a modal and shrinks into a mini-player in the corner when
+ * the user navigates to another route or minimizes it; from there it can be
+ * expanded back to the modal or closed. Must be rendered inside the router.
+ *
+ * @component
+ * @param {PlayerProviderProps} props - Component properties
+ * @returns {JSX.Element} The children plus the active player, if any
+ */
+export const PlayerProvider: React.FC<PlayerProviderProps> = ({ children }) => {
+  const [session, setSession] = useState<PlayerSession | null>(null);
+  const [mode, setMode] = useState<PlayerMode>('modal');
+  const sessionKeyRef = useRef(0);
+  const location = useLocation();
+
+  const close = useCallback(() => {
+    session?.onClose?.();
+    setSession(null);
+    setMode('modal');
+  }, [session]);
+
+  const open = useCallback((media: PlayerMedia, options: PlayerOpenOptions = {}) => {
+    setMode('modal');
+    // Opening the movie that is already playing just brings the modal back,
+    // now reporting to the page that reopened it
+    if (session && session.movieId === media.movieId && options.startAt === undefined) {
+      const { onClose, onFavoriteChange } = options;
+      setSession((current) => (current ? { ...current, onClose, onFavoriteChange } : current));
+      return;
+    }
+
+    session?.onClose?.();
+    sessionKeyRef.current += 1;
+    setSession({ ...media, ...options, key: sessionKeyRef.current });
+  }, [session]);
+
+  /**
+   * Finds the movie to suggest when the current one ends: the next one in the
+   * queue it was opened from or, past the end of the queue, a recommendation.
+   */
+  const resolveNext = useCallback(async (): Promise<PlayerMedia | null> => {
+    if (!session) return null;
+
+    const queue = session.queue ?? [];
+    const index = queue.findIndex((media) => media.movieId === session.movieId);
+    if (index !== -1 && index < queue.length - 1) return queue[index + 1];
+
+    try {
+      const recommendations = await movieService.getRecommendations(session.movieId);
+      const next = recommendations.find((movie) => movie._id !== session.movieId && movie.videoUrl);
+      return next ? { movieId: next._id, title: next.title, videoUrl: next.videoUrl, imageUrl: next.imageUrl } : null;
+    } catch (error) {
+      console.warn('No se pudieron obtener recomendaciones:', error);
+      return null;
+    }
+  }, [session]);
+
+  /**
+   * Plays the suggested movie in the same player (modal or mini), keeping the
+   * queue and callbacks of the current one.
+   */
+  const playNext = useCallback((media: PlayerMedia) => {
+    if (!session) return;
+    sessionKeyRef.current += 1;
+    setSession({
+      ...media,
+      queue: session.queue,
+      onClose: session.onClose,
+      onFavoriteChange: session.onFavoriteChange,
+      key: sessionKeyRef.current,
+    });
+  }, [session]);
+
+  const minimize = useCallback(() => setMode('mini'), []);
+  const expand = useCallback(() => setMode('modal'), []);
+
+  /**
+   * Keeps the video playing while the user moves between routes.
+   *
+   * @effect
+   * @listens location.pathname - Shrinks the modal into the mini-player on navigation
+   */
+  useEffect(() => {
+    setMode('mini');
+  }, [location.pathname]);
+
+  const media = session ? { movieId: session.movieId, title: session.title, videoUrl: session.videoUrl } : null;
+
+  return (
+    <PlayerContext.Provider value={{ media, mode, open, close, minimize, expand }}>
+      {children}
+      {session && (
+        <VideoModal
+          key={session.key}
+          videoUrl={session.videoUrl}
+          title={session.title}
+          movieId={session.movieId}
+          startAt={session.startAt}
+          onClose={close}
+          onFavoriteChange={session.onFavoriteChange}
+          mode={mode}
+          onMinimize={minimize}
+          onExpand={expand}
+          getNextMovie={resolveNext}
+          onPlayNext={playNext}
+        />
+      )}
+    </PlayerContext.Provider>
+  );
+};
+
+export const usePlayer = (): PlayerContextType => {
+  const context = useContext(PlayerContext);
+  if (!context) {
+    throw new Error('usePlayer must be used within a PlayerProvider');
+  }
+  return context;
+};
+
+export type { PlayerMedia, PlayerMode, PlayerOpenOptions };
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RefObject } from 'react';
+
+/**
+ * Kind of source handled by the player.
+ * - `hls`: HTTP Live Streaming manifest (`.m3u8`).
+ * - `dash`: MPEG-DASH manifest (`.mpd`).
+ * - `progressive`: Plain file (e.g. the MP4 videos from Pexels).
+ */
+type StreamType = 'hls' | 'dash' | 'progressive';
+
+/**
+ * A selectable rendition of an adaptive stream.
+ *
+ * @interface QualityLevel
+ * @property {number} index - Index used to select the level in the streaming engine
+ * @property {number} height - Vertical resolution in pixels (0 if unknown)
+ * @property {number} bitrate - Bitrate in bits per second
+ * @property {string} label - Human readable label (e.g. "720p")
+ */
+interface QualityLevel {
+  index: number;
+  height: number;
+  bitrate: number;
+  label: string;
+}
+
+/**
+ * Return type for the useAdaptiveStreaming hook.
+ *
+ * @interface UseAdaptiveStreamingReturn
+ * @property {StreamType} streamType - Detected kind of source
+ * @property {boolean} usesEngine - True when a JS streaming engine (hls.js/dash.js) is attached to the video
+ * @property {QualityLevel[]} levels - Available renditions (empty for progressive or native playback)
+ * @property {number} selectedLevel - Level chosen by the user, or -1 for automatic bitrate switching
+ * @property {number} activeLevel - Level currently being played, or -1 if unknown
+ * @property {function(number): void} setLevel - Selects a level, or -1 to return to automatic switching
+ */
+interface UseAdaptiveStreamingReturn {
+  streamType: StreamType;
+  usesEngine: boolean;
+  levels: QualityLevel[];
+  selectedLevel: number;
+  activeLevel: number;
+  setLevel: (index: number) => void;
+}
+
+/**
+ * Detects the kind of stream from its URL, ignoring query strings and fragments.
+ *
+ * @param {string} url - Source URL
+ * @returns {StreamType} Detected stream type
+ */
+export const detectStreamType = (url: string): StreamType => {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.m3u8')) return 'hls';
+  if (path.endsWith('.mpd')) return 'dash';
+  return 'progressive';
+};
+
+/**
+ * Builds a label for a rendition from its height or, failing that, its bitrate.
+ *
+ * @param {number} height - Vertical resolution in pixels
+ * @param {number} bitrate - Bitrate in bits per second
+ * @returns {string} Label such as "1080p" or "800 kbps"
+ */
+const qualityLabel = (height: number, bitrate: number): string =>
+  height ? `${height}p` : `${Math.round(bitrate / 1000)} kbps`;
+
+/**
+ * Custom React hook that attaches a source to a `<video>` element, using an
+ * adaptive streaming engine when needed.
+ *
+ * - HLS manifests play natively where the browser supports them (Safari, iOS)
+ *   and through `hls.js` (loaded on demand) elsewhere.
+ * - DASH manifests play through `dash.js` (loaded on demand).
+ * - Any other URL is left to the caller, who renders a regular `<source>`.
+ *
+ * When an engine is used, the available renditions are exposed so the user
+ * can pick one manually or go back to automatic bitrate switching.
+ *
+ * @param {RefObject<HTMLVideoElement | null>} videoRef - Ref to the video element
+ * @param {string} src - Source URL
+ * @returns {UseAdaptiveStreamingReturn} Stream information and quality controls
+ *
+ * @example
+ * ```tsx
+ * const { streamType, levels, setLevel } = useAdaptiveStreaming(videoRef, videoUrl);
+ * ```
+ */
+export const useAdaptiveStreaming = (
+  videoRef: RefObject<HTMLVideoElement | null>,
+  src: string
+): UseAdaptiveStreamingReturn => {
+  const streamType = detectStreamType(src);
+  const [usesEngine, setUsesEngine] = useState(false);
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  const [selectedLevel, setSelectedLevel] = useState(-1);
+  const [activeLevel, setActiveLevel] = useState(-1);
+
+  /** Engine-specific level selector, set once an engine is attached. */
+  const selectLevelRef = useRef<((index: number) => void) | null>(null);
+
+  /**
+   * Attaches the source to the video element and tears the engine down
+   * when the source changes or the component unmounts.
+   *
+   * @effect
+   * @listens src - Re-attaches when the source changes
+   */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || streamType === 'progressive') return;
+
+    let disposed = false;
+    let destroy: (() => void) | null = null;
+
+    setLevels([]);
+    setSelectedLevel(-1);
+    setActiveLevel(-1);
+    setUsesEngine(false);
+    selectLevelRef.current = null;
+
+    const attachHls = async () => {
+      // Safari and iOS play HLS natively, with their own bitrate switching
+      if (video.canPlayType('application/vnd.apple.mpegurl')) {
+        video.src = src;
+        destroy = () => {
+          video.removeAttribute('src');
+          video.load();
+        };
+        return;
+      }
+
+      const { default: Hls } = await import('hls.js');
+      if (disposed) return;
+      if (!Hls.isSupported()) {
+        console.warn('Este navegador no soporta la reproducción HLS.');
+        return;
+      }
+
+      const hls = new Hls();
+      hls.on(Hls.Events.MANIFEST_PARSED, () => {
+        setLevels(hls.levels.map((level, index) => ({
+          index,
+          height: level.height,
+          bitrate: level.bitrate,
+          label: qualityLabel(level.height, level.bitrate),
+        })));
+      });
+      hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => setActiveLevel(data.level));
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (data.fatal) console.error('Error de reproducción HLS:', data);
+      });
+      hls.loadSource(src);
+      hls.attachMedia(video);
+
+      selectLevelRef.current = (index) => {
+        hls.currentLevel = index;
+      };
+      destroy = () => hls.destroy();
+      setUsesEngine(true);
+    };
+
+    const attachDash = async () => {
+      const { MediaPlayer } = await import('dashjs');
+      if (disposed) return;
+
+      const player = MediaPlayer().create();
+      // Level indexes are positions in this list; the engine identifies renditions by id
+      let representationIds: string[] = [];
+      const indexOf = (id?: string) => (id ? representationIds.indexOf(id) : -1);
+
+      player.on('streamInitialized', () => {
+        const representations = player.getRepresentationsByType('video');
+        representationIds = representations.map((rep) => rep.id);
+        setLevels(representations.map((rep, index) => ({
+          index,
+          height: rep.height,
+          bitrate: rep.bandwidth,
+          label: qualityLabel(rep.height, rep.bandwidth),
+        })));
+        setActiveLevel(indexOf(player.getCurrentRepresentationForType('video')?.id));
+      });
+      player.on('qualityChangeRendered', (e) => {
+        if (e.mediaType === 'video') setActiveLevel(indexOf(e.newRepresentation.id));
+      });
+      player.initialize(video, src, !video.paused || video.autoplay);
+
+      selectLevelRef.current = (index) => {
+        const auto = index < 0;
+        player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: auto } } } });
+        if (!auto) player.setRepresentationForTypeByIndex('video', index, true);
+      };
+      destroy = () => player.destroy();
+      setUsesEngine(true);
+    };
+
+    (streamType === 'hls' ? attachHls() : attachDash()).catch((error) => {
+      console.error('No se pudo iniciar la reproducción adaptativa:', error);
+    });
+
+    return () => {
+      disposed = true;
+      destroy?.();
+      selectLevelRef.current = null;
+    };
+  }, [videoRef, src, streamType]);
+
+  /**
+   * Selects a rendition, or returns to automatic switching with -1.
+   *
+   * @function setLevel
+   * @param {number} index - Level index, or -1 for automatic
+   * @returns {void}
+   */
+  const setLevel = useCallback((index: number) => {
+    if (!selectLevelRef.current) return;
+    selectLevelRef.current(index);
+    setSelectedLevel(index);
+  }, []);
+
+  return { streamType, usesEngine, levels, selectedLevel, activeLevel, setLevel };
+};
+
+export type { QualityLevel, StreamType };
@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Custom React hook that returns a value only after it has stopped changing
+ * for the given delay. Useful to avoid firing a request on every keystroke.
+ *
+ * @template T Type of the value.
+ * @param {T} value - Value to debounce
+ * @param {number} [delay=250] - Quiet period in milliseconds
+ * @returns {T} The debounced value
+ *
+ * @example
+ * ```tsx
+ * const debouncedQuery = useDebouncedValue(query, 300);
+ * ```
+ */
+export const useDebouncedValue = <T>(value: T, delay = 250): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
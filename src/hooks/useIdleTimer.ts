@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import activityService from '../services/activityService';
+
+/** DOM events that count as user activity. */
+const ACTIVITY_EVENTS = ['mousemove', 'pointerdown', 'keydown', 'wheel', 'scroll', 'touchstart'] as const;
+
+/** How often (ms) the remaining time is re-checked. */
+const CHECK_INTERVAL = 1000;
+
+/**
+ * Options for the useIdleTimer hook.
+ *
+ * @interface IdleTimerOptions
+ * @property {number} timeout - Inactivity (ms) after which `onTimeout` is called; 0 disables the timer
+ * @property {number} warningTime - How long (ms) before the timeout the warning starts
+ * @property {() => void} onTimeout - Called once when the inactivity reaches `timeout`
+ */
+interface IdleTimerOptions {
+  timeout: number;
+  warningTime: number;
+  onTimeout: () => void;
+}
+
+/**
+ * Custom React hook that watches for user inactivity, in this tab or in any
+ * other tab of the app (through `activityService`), and warns before it
+ * reaches the timeout.
+ *
+ * Once the warning has started, moving the mouse or pressing keys no longer
+ * counts: the user has to confirm through `stayActive`, so a stray movement
+ * does not silently dismiss the warning. Activity in other tabs still does.
+ *
+ * @param {IdleTimerOptions} options - Timer options
+ * @returns {{ secondsLeft: number | null, stayActive: () => void }} Seconds left
+ *   while warning (`null` otherwise), and a function that resets the timer
+ *
+ * @example
+ * ```tsx
+ * const { secondsLeft, stayActive } = useIdleTimer({ timeout: 30 * 60_000, warningTime: 60_000, onTimeout: logout });
+ * ```
+ */
+export const useIdleTimer = ({ timeout, warningTime, onTimeout }: IdleTimerOptions) => {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const warningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  /**
+   * Records DOM activity while no warning is shown.
+   *
+   * @effect
+   * @listens mousemove, pointerdown, keydown, wheel, scroll, touchstart
+   */
+  useEffect(() => {
+    if (timeout <= 0) return;
+
+    const onActivity = () => {
+      if (!warningRef.current) activityService.markActive();
+    };
+    activityService.markActive(); // The timer starts now, not at the last activity before it was enabled
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, onActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, onActivity));
+  }, [timeout]);
+
+  /**
+   * Checks the remaining time every second: starts the warning when it falls
+   * below `warningTime` and calls `onTimeout` when it runs out.
+   *
+   * @effect
+   */
+  useEffect(() => {
+    if (timeout <= 0) return;
+
+    const check = () => {
+      const remaining = timeout - activityService.getIdleTime();
+      if (remaining <= 0) {
+        warningRef.current = false;
+        setSecondsLeft(null);
+        clearInterval(timer);
+        onTimeoutRef.current();
+        return;
+      }
+      warningRef.current = remaining <= warningTime;
+      setSecondsLeft(warningRef.current ? Math.ceil(remaining / 1000) : null);
+    };
+
+    const timer = setInterval(check, CHECK_INTERVAL);
+    return () => {
+      clearInterval(timer);
+      warningRef.current = false;
+      setSecondsLeft(null);
+    };
+  }, [timeout, warningTime]);
+
+  const stayActive = useCallback(() => {
+    warningRef.current = false;
+    setSecondsLeft(null);
+    activityService.markActive();
+  }, []);
+
+  return { secondsLeft, stayActive };
+};
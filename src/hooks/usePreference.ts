@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import preferencesService, { PREFERENCES_CHANGED_EVENT } from '../services/preferencesService';
+import type { Preferences } from '../services/preferencesService';
+
+/**
+ * Custom React hook that reads and writes a persisted user preference.
+ *
+ * The value is loaded from `preferencesService` and kept in sync when the
+ * preference changes elsewhere: in another component of this tab, in another
+ * tab (via the `storage` event), or when a different user logs in.
+ *
+ * @template K Preference name.
+ * @param {K} key - Preference to bind.
+ * @returns {[Preferences[K], (value: Preferences[K]) => void]} Current value and a setter that persists it.
+ *
+ * @example
+ * ```tsx
+ * const [captionStyle, setCaptionStyle] = usePreference('captions');
+ * setCaptionStyle({ ...captionStyle, fontScale: 1.5 });
+ * ```
+ */
+export const usePreference = <K extends keyof Preferences>(
+  key: K
+): [Preferences[K], (value: Preferences[K]) => void] => {
+  const [value, setValue] = useState<Preferences[K]>(() => preferencesService.get(key));
+
+  /**
+   * Re-reads the preference whenever it may have changed outside this hook.
+   *
+   * @effect
+   * @listens preferencesChanged - Changes made in this tab
+   * @listens storage - Changes made in other tabs
+   * @listens authChanged - A different user may have logged in
+   */
+  useEffect(() => {
+    const refresh = () => setValue(preferencesService.get(key));
+
+    window.addEventListener(PREFERENCES_CHANGED_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+    window.addEventListener('authChanged', refresh);
+    return () => {
+      window.removeEventListener(PREFERENCES_CHANGED_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+      window.removeEventListener('authChanged', refresh);
+    };
+  }, [key]);
+
+  const update = useCallback(
+    (next: Preferences[K]) => {
+      setValue(next);
+      preferencesService.set(key, next);
+    },
+    [key]
+  );
+
+  return [value, update];
+};
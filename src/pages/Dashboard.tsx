@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import '../styles/Dashboard.scss';
-import apiClient from '../services/apiClient';
-import VideoModal from '../components/VideoModal';
+import movieService from '../services/movieService';
+import { isAbortError } from '../services/apiClient';
+import catalogIndex from '../services/catalogIndex';
+import ContinueWatchingRow from '../components/ContinueWatchingRow';
 import { useSpeech } from '../contexts/SpeechContext';
+import { usePlayer } from '../contexts/PlayerContext';
+import type { PlayerMedia } from '../contexts/PlayerContext';
 
 /**
  * Represents a movie/video object with metadata.
@@ -28,6 +32,19 @@ interface Movie {
   description?: string;
 }
 
+/**
+ * Converts a movie into the shape used by the app-level player.
+ *
+ * @param {Pick<Movie, '_id' | 'title' | 'videoUrl' | 'imageUrl'>} movie - Movie to convert
+ * @returns {PlayerMedia} Player media
+ */
+const toPlayerMedia = (movie: Pick<Movie, '_id' | 'title' | 'videoUrl' | 'imageUrl'>): PlayerMedia => ({
+  movieId: movie._id,
+  title: movie.title,
+  videoUrl: movie.videoUrl,
+  imageUrl: movie.imageUrl,
+});
+
 /**
  * Dashboard Component
  * 
@@ -35,8 +52,9 @@ interface Movie {
  * Allows users to view video details in a modal when clicking on a video thumbnail.
  * 
  * Features:
+ * - "Continuar viendo" row with partially watched movies
  * - Lazy loading with "Load more" button
- * - Video modal for playback
+ * - Playback in the app-level player, with the list queued for autoplay
  * - Loading and error states
  * - Responsive grid layout
  * - Skeleton loader for better UX
@@ -53,49 +71,54 @@ export const Dashboard: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedVideo, setSelectedVideo] = useState<Movie | null>(null);
+  const [progressRefreshKey, setProgressRefreshKey] = useState(0);
   const [hasMore, setHasMore] = useState(true);
 
   // Accessibility: Speech Synthesis (from global context)
   const { handleSpeak } = useSpeech();
 
+  // App-level video player
+  const { open } = usePlayer();
+
   /**
    * Fetches popular movies from the API when the limit changes.
    * 
    * Handles initial loading and pagination. Updates the videos state
    * and determines if more content is available based on response length.
    * 
+   * The request is cancelled if the component unmounts or the limit changes first.
+   * 
    * @effect
    * @listens limit - Triggers fetch when limit value changes
    */
   useEffect(() => {
-    let mounted = true;
+    const controller = new AbortController();
 
     const fetch = async () => {
       if (limit === PAGE_STEP) setLoading(true);
       else setLoadingMore(true);
       try {
-        const response = await apiClient.get<Movie[]>(`/api/v1/movies/popular/${limit}`);
-        if (!mounted) return;
+        const response = await movieService.getPopular<Movie>(limit, controller.signal);
         setVideos(response || []);
+        // Keep the Navbar search useful if the search endpoint goes down
+        catalogIndex.add(response || []);
         // If response has fewer items than requested limit, no more content available
         setHasMore(!(response && response.length < limit));
         setError(null);
       } catch (err: any) {
+        if (isAbortError(err)) return;
         console.error('Error al obtener videos:', err);
-        if (!mounted) return;
         setError('No se pudieron cargar los videos.');
       } finally {
-        if (!mounted) return;
-        setLoading(false);
-        setLoadingMore(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
       }
     };
 
     fetch();
-    return () => {
-      mounted = false;
-    };
+    return () => controller.abort();
   }, [limit]);
 
   /**
@@ -111,6 +134,23 @@ export const Dashboard: React.FC = () => {
     setLimit((prev) => prev + PAGE_STEP);
   };
 
+  /**
+   * Opens a movie in the player, queueing the rest of the list so the next
+   * one can autoplay. When the player is closed the "Continuar viendo" row
+   * is reloaded, since the watch progress has changed.
+   *
+   * @param {Pick<Movie, '_id' | 'title' | 'videoUrl' | 'imageUrl'>} video - Movie to play
+   * @param {number} [position] - Saved position to start from (skips the resume prompt)
+   * @returns {void}
+   */
+  const openVideo = (video: Pick<Movie, '_id' | 'title' | 'videoUrl' | 'imageUrl'>, position?: number) => {
+    open(toPlayerMedia(video), {
+      startAt: position,
+      queue: videos.map(toPlayerMedia),
+      onClose: () => setProgressRefreshKey((key) => key + 1),
+    });
+  };
+
   /**
    * Renders skeleton loader placeholders while content is loading
    */
@@ -126,6 +166,8 @@ export const Dashboard: React.FC = () => {
   // Layout
   return (
     <main className="dashboard-page">
+      <ContinueWatchingRow onSelect={openVideo} refreshKey={progressRefreshKey} />
+
       <h1 className="dashboard-title">Películas populares</h1>
 
       {loading ? (
@@ -144,7 +186,7 @@ export const Dashboard: React.FC = () => {
                   key={video.pexelsId || video._id}
                   type="button"
                   className="video-item"
-                  onClick={() => setSelectedVideo(video)}
+                  onClick={() => openVideo(video)}
                   onMouseEnter={() => handleSpeak(`${video.title}. Por ${video.author}`)}
                   onFocus={() => handleSpeak(`${video.title}. Por ${video.author}`)}
                   aria-label={`Abrir reproductor para ${video.title}`}
@@ -183,15 +225,6 @@ export const Dashboard: React.FC = () => {
           </div>
         </>
       )}
-
-      {selectedVideo && (
-        <VideoModal
-          videoUrl={selectedVideo.videoUrl}
-          title={selectedVideo.title}
-          movieId={selectedVideo._id}
-          onClose={() => setSelectedVideo(null)}
-        />
-      )}
     </main>
   );
 };
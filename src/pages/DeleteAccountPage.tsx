@@ -71,7 +71,6 @@ export const DeleteAccountPage: React.FC = () => {
     try {
       await authService.deleteUser(password);
       await authService.logout();
-      window.dispatchEvent(new Event('authChanged')) // Change auth state globally
       setDone(true);
       navigate("/login");
     } catch (err: any) {
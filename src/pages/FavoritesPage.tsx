@@ -1,7 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import '../styles/FavoritesPage.scss';
-import apiClient from '../services/apiClient';
-import VideoModal from '../components/VideoModal';
+import movieService from '../services/movieService';
+import favoritesService from '../services/favoritesService';
+import catalogIndex from '../services/catalogIndex';
+import { isAbortError, isUnauthorizedError } from '../services/apiClient';
+import { usePlayer } from '../contexts/PlayerContext';
+import { useAuth } from '../contexts/AuthContext';
 import { FaHeart, FaPlay } from 'react-icons/fa';
 
 /**
@@ -28,31 +32,31 @@ interface Movie {
   description?: string;
 }
 
-/**
- * Represents a favorite entry linking a user to a movie.
- * 
- * @interface Favorite
- * @property {string} _id - Unique favorite entry ID
- * @property {number} userId - ID of the user who favorited the movie
- * @property {string} movieId - ID of the favorited movie
- */
-interface Favorite {
-  _id: string;
-  userId: number;
-  movieId: string;
-}
-
 /**
  * Movie object extended with favorite information.
  * 
  * @interface MovieWithFavorite
  * @extends {Movie}
  * @property {string} [favoriteId] - ID of the favorite entry for quick removal
+ * @property {boolean} [unavailable] - The movie details could not be loaded; only `_id` and `favoriteId` are set
  */
 interface MovieWithFavorite extends Movie {
   favoriteId?: string;
+  unavailable?: boolean;
 }
 
+/**
+ * Starts a new load, cancelling the one still in flight, if any.
+ *
+ * @param {React.RefObject<AbortController | null>} ref - Holds the controller of the load in flight
+ * @returns {AbortController} Controller of the new load
+ */
+const startLoad = (ref: React.RefObject<AbortController | null>): AbortController => {
+  ref.current?.abort();
+  ref.current = new AbortController();
+  return ref.current;
+};
+
 /**
  * FavoritesPage Component
  * 
@@ -62,15 +66,15 @@ interface MovieWithFavorite extends Movie {
  * Features:
  * - Fetches user's favorite movies from the backend
  * - Grid display with movie thumbnails
- * - Video playback via VideoModal
+ * - Video playback via the app-level player
  * - Remove from favorites functionality
- * - Loading and error states
+ * - Loading and error states; favorites whose movie fails to load are marked and can be retried
  * - Keyboard-accessible cards with hover effects
  * 
  * Flow:
- * 1. Loads user ID from localStorage
+ * 1. Takes the user ID from the session (the route requires a signed-in user)
  * 2. Fetches user's favorites list
- * 3. Fetches full movie details for each favorite
+ * 3. Fetches full movie details for all favorites in batches
  * 4. Displays movies with play and remove options
  * 
  * @component
@@ -80,45 +84,54 @@ export const FavoritesPage: React.FC = () => {
   const [videos, setVideos] = useState<MovieWithFavorite[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedVideo, setSelectedVideo] = useState<Movie | null>(null);
-  const [removedDuringModal, setRemovedDuringModal] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  // A ref, not state: the close callback handed to the player must see the latest value
+  const removedDuringModalRef = useRef<string | null>(null);
+  // Load in flight (first load or retry), aborted when a new one starts or the page unmounts
+  const loadControllerRef = useRef<AbortController | null>(null);
+  const { open } = usePlayer();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
 
   useEffect(() => {
-    getFavoritesVideos();
-  }, []);
+    if (!userId) return;
+    const loads = loadControllerRef;
+    getFavoritesVideos(userId, startLoad(loads).signal);
+    return () => loads.current?.abort();
+  }, [userId]);
 
   const handleFavoriteChange = (movieId: string, isFavorite: boolean, _favoriteId?: string) => {
     if (!isFavorite) {
       // mark to remove on modal close (do not remove immediately while modal open)
-      setRemovedDuringModal(movieId);
+      removedDuringModalRef.current = movieId;
     } else {
       // if user added favorite inside modal, clear any pending removal
-      setRemovedDuringModal((prev) => (prev === movieId ? null : prev));
+      if (removedDuringModalRef.current === movieId) removedDuringModalRef.current = null;
     }
   };
 
   
   const handleModalClose = () => {
-    if (removedDuringModal) {
-      setVideos((prev) => prev.filter((v) => v._id !== removedDuringModal));
-      setRemovedDuringModal(null);
+    const removed = removedDuringModalRef.current;
+    if (removed) {
+      setVideos((prev) => prev.filter((v) => v._id !== removed));
+      removedDuringModalRef.current = null;
     }
-    setSelectedVideo(null);
   };
 
-  async function getFavoritesVideos() {
-    try {
-      const userString = localStorage.getItem('user');
-      const userId = userString ? JSON.parse(userString).id : null;
-      if (!userId) {
-        setError('Usuario no identificado.');
-        setLoading(false);
-        return;
-      }
+  const openVideo = (video: Movie) => {
+    removedDuringModalRef.current = null;
+    const toMedia = (movie: Movie) => ({ movieId: movie._id, title: movie.title, videoUrl: movie.videoUrl, imageUrl: movie.imageUrl });
+    open(toMedia(video), {
+      queue: videos.filter((v) => !v.unavailable).map(toMedia),
+      onClose: handleModalClose,
+      onFavoriteChange: handleFavoriteChange,
+    });
+  };
 
-      
-      const favResponse = await apiClient.get<Favorite[]>(`/api/v1/favorites/user/${userId}`);
-      const favorites = favResponse || [];
+  async function getFavoritesVideos(userId: string, signal: AbortSignal) {
+    try {
+      const favorites = await favoritesService.getFavorites(userId, signal);
 
       if (!favorites.length) {
         setVideos([]);
@@ -126,27 +139,46 @@ export const FavoritesPage: React.FC = () => {
         return;
       }
 
-      
-      const movieRequests = favorites.map((fav) =>
-        apiClient.get<Movie>(`/api/v1/movies/${fav.movieId}`).then((movie) => ({
-          ...movie,
-          favoriteId: fav._id, 
-        }))
-      );
+      const { movies } = await movieService.getMovies<Movie>(favorites.map((fav) => fav.movieId), signal);
+      if (signal.aborted) return; // Cached movies resolve even after the load was cancelled
 
-      
-      const movies = await Promise.all(movieRequests);
+      // Favorites whose movie failed to load stay in the list, marked, so they can be retried or removed
+      const rows: MovieWithFavorite[] = favorites.map((fav) => {
+        const movie = movies.get(fav.movieId);
+        return movie
+          ? { ...movie, favoriteId: fav._id }
+          : { _id: fav.movieId, favoriteId: fav._id, title: '', imageUrl: '', videoUrl: '', unavailable: true };
+      });
 
       // Save to state
-      setVideos(movies);
-    } catch (err: any) {
+      setVideos(rows);
+      catalogIndex.add(rows.filter((row) => !row.unavailable));
+    } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Error al obtener videos favoritos:', err);
-      setError('No se pudieron cargar los videos.');
+      // An expired session is reported by the session-expired dialog
+      if (!isUnauthorizedError(err)) setError('No se pudieron cargar los videos.');
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   }
 
+  /**
+   * Tries again to load the favorites that failed. Movies already loaded come
+   * from the cache, so only the missing ones are requested.
+   *
+   * @returns {Promise<void>}
+   */
+  const retryUnavailable = async () => {
+    if (!userId) return;
+    setRetrying(true);
+    const { signal } = startLoad(loadControllerRef);
+    await getFavoritesVideos(userId, signal);
+    if (!signal.aborted) setRetrying(false);
+  };
+
+  const unavailableCount = videos.filter((v) => v.unavailable).length;
+
   /**
    * Removes a favorite from both the state and the database
    * 
@@ -160,9 +192,11 @@ export const FavoritesPage: React.FC = () => {
       return;
     }
 
+    if (!userId) return;
+
     try {
       // Remove from database
-      await apiClient.delete(`/api/v1/favorites/movie/${favoriteId}`);
+      await favoritesService.remove(userId, favoriteId);
 
       // Remove from UI (optimistic)
       setVideos((prev) => prev.filter((v) => v.favoriteId !== favoriteId && v._id !== movieId));
@@ -190,7 +224,38 @@ export const FavoritesPage: React.FC = () => {
         <p className="no-videos">Aún no tienes videos favoritos.</p>
       ) : (
         <section className="favorite-rows" aria-label="Favoritos">
-          {videos.map((video) => (
+          {unavailableCount > 0 && (
+            <div className="favorites-warning" role="status">
+              <span>
+                {unavailableCount === 1
+                  ? 'Uno de tus favoritos no se pudo cargar.'
+                  : `${unavailableCount} de tus favoritos no se pudieron cargar.`}
+              </span>
+              <button type="button" className="btn-retry" onClick={retryUnavailable} disabled={retrying}>
+                {retrying ? 'Reintentando…' : 'Reintentar'}
+              </button>
+            </div>
+          )}
+
+          {videos.map((video) => video.unavailable ? (
+            <article key={video._id} className="favorite-row unavailable">
+              <div className="row-thumb" aria-hidden="true" />
+
+              <div className="row-card">
+                <div className="card-head">
+                  <h3 className="card-title">Película no disponible</h3>
+                  <button
+                    className="heart-btn"
+                    onClick={() => handleRemoveFavorite(video.favoriteId, video._id)}
+                    aria-label="Quitar favorito"
+                  >
+                    <FaHeart />
+                  </button>
+                </div>
+                <p className="card-desc">No pudimos cargar los datos de esta película. Inténtalo de nuevo más tarde o quítala de tus favoritos.</p>
+              </div>
+            </article>
+          ) : (
             <article key={video._id} className="favorite-row">
               <div className="row-thumb">
                 <img src={video.imageUrl} alt={video.title} />
@@ -216,7 +281,7 @@ export const FavoritesPage: React.FC = () => {
                 <div className="card-actions">
                   <button
                     className="btn-preview"
-                    onClick={() => setSelectedVideo(video)}
+                    onClick={() => openVideo(video)}
                     aria-label={`Vista previa de ${video.title}`}
                   >
                     <FaPlay /> Ver preview
@@ -230,16 +295,6 @@ export const FavoritesPage: React.FC = () => {
           ))}
         </section>
       )}
-
-      {selectedVideo && (
-        <VideoModal
-          videoUrl={selectedVideo.videoUrl}
-          title={selectedVideo.title}
-          movieId={selectedVideo._id}
-          onClose={handleModalClose}              
-          onFavoriteChange={handleFavoriteChange} 
-        />
-      )}
     </main>
   );
 };
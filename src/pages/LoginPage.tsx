@@ -1,19 +1,20 @@
 import React, { useState, FormEvent } from "react";
-import { useNavigate } from "react-router-dom";
-import authService from "../services/authService";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { getSafeNextPath } from "../services/authService";
 import "../styles/LoginPage.scss";
 import { useSpeech } from "../contexts/SpeechContext";
+import { useAuth } from "../contexts/AuthContext";
 
 /**
  * Login page component for user authentication.
  *
  * This component renders a form that allows users to authenticate
  * with their email and password. Upon successful login, it redirects
- * the user to the main dashboard (`/dashboard`).
+ * the user to the page given in the `next` query parameter (e.g. the page
+ * they were on when their session expired), or to the main dashboard (`/dashboard`).
  *
- * It communicates with `authService` to:
- * - Send credentials to the backend (`login`)
- * - Verify if the user is authenticated (`checkAuth`)
+ * It logs in through the session context (`useAuth().login`), which sends
+ * the credentials to the backend and loads the profile of the user.
  *
  * It also handles authentication errors and displays messages on screen.
  *
@@ -38,6 +39,12 @@ export const LoginPage: React.FC = () => {
    */
   const [password, setPassword] = useState("");
 
+  /**
+   * State for the "keep me signed in" option.
+   * @type {boolean}
+   */
+  const [rememberMe, setRememberMe] = useState(false);
+
   /**
    * State for the error message shown in case of authentication failure.
    * @type {string}
@@ -56,6 +63,19 @@ export const LoginPage: React.FC = () => {
    */
   const navigate = useNavigate();
 
+  /**
+   * Session actions.
+   * @type {Object}
+   */
+  const { login } = useAuth();
+
+  /**
+   * Page to return to after logging in, from the `next` query parameter.
+   * @type {string}
+   */
+  const [searchParams] = useSearchParams();
+  const nextPath = getSafeNextPath(searchParams.get("next"));
+
   /**
    * Speech synthesis context for accessibility features.
    * @type {Object}
@@ -65,9 +85,8 @@ export const LoginPage: React.FC = () => {
   /**
    * Handles the form submission.
    *
-   * Sends the credentials to the authentication service (`authService.login`),
-   * checks if the user was authenticated (`authService.checkAuth`) and redirects
-   * to the main dashboard. In case of error, it displays a descriptive message.
+   * Sends the credentials through the session context (`login`) and redirects
+   * to the requested page or the main dashboard. In case of error, it displays a descriptive message.
    *
    * @async
    * @function handleSubmit
@@ -81,19 +100,10 @@ export const LoginPage: React.FC = () => {
 
     try {
       
-      const loginResponse = await authService.login({ email, password });
-      console.log("Login exitoso:", loginResponse);
-
-      
-      const userData = await authService.checkAuth();
-      console.log("Datos del usuario:", userData);
+      const userData = await login({ email, password, rememberMe });
+      console.log("Login exitoso:", userData);
 
-      
-      if (userData) {
-        localStorage.setItem("user", JSON.stringify(userData));
-      }
-
-      navigate("/dashboard");
+      navigate(nextPath, { replace: true });
     } catch (err: any) {
       setError(err.message || "Error al iniciar sesión");
       console.error("Error en login:", err);
@@ -162,6 +172,20 @@ export const LoginPage: React.FC = () => {
               />
             </label>
 
+            <label
+              className="form-checkbox"
+              onMouseEnter={() => handleSpeak('Mantener sesión iniciada')}
+            >
+              <input
+                type="checkbox"
+                checked={rememberMe}
+                onChange={(e) => setRememberMe(e.target.checked)}
+                onFocus={() => handleSpeak('Mantener sesión iniciada')}
+                disabled={loading}
+              />
+              Mantener sesión iniciada
+            </label>
+
             <button 
               className="btn-login" 
               type="submit" 
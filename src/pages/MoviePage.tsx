@@ -1,9 +1,13 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router';
-import apiClient from '../services/apiClient';
-import VideoModal from '../components/VideoModal';
+import movieService from '../services/movieService';
+import reviewService from '../services/reviewService';
+import { summarizeRatings } from '../services/ratingService';
+import { isAbortError, isConflictError, isNotFoundError, isValidationError } from '../services/apiClient';
 import '../styles/MoviePage.scss';
 import { useSpeech } from '../contexts/SpeechContext';
+import { usePlayer } from '../contexts/PlayerContext';
+import { useAuth } from '../contexts/AuthContext';
 import { ToastContainer, toast, Bounce } from 'react-toastify';
 
 /**
@@ -65,6 +69,20 @@ type Review = {
   updatedAt?: string;
 };
 
+/**
+ * Extracts the user ID from a review object.
+ * Handles both string userId and populated UserData object.
+ * 
+ * @function getReviewUserId
+ * @param {Review} review - The review object.
+ * @returns {string} The user ID.
+ */
+const getReviewUserId = (review: Review): string => {
+  return typeof review.userId === 'string' 
+    ? review.userId 
+    : review.userId._id;
+};
+
 /**
  * Movie detail page component.
  * 
@@ -123,10 +141,9 @@ const MoviePage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   
   /**
-   * State for video modal visibility.
-   * @type {[boolean, Function]}
+   * App-level video player.
    */
-  const [isVideoModalOpen, setIsVideoModalOpen] = useState(false);
+  const { open: openPlayer } = usePlayer();
   
   /**
    * State for error messages.
@@ -219,29 +236,11 @@ const MoviePage: React.FC = () => {
   const { handleSpeak } = useSpeech();
 
   /**
-   * Retrieves the current user's ID from localStorage.
-   * 
-   * @function getCurrentUserId
-   * @returns {string | null} User ID or null if not logged in.
+   * Signed-in user, if any.
+   * @type {User | null}
    */
-  const getCurrentUserId = (): string | null => {
-    const userString = localStorage.getItem('user');
-    return userString ? JSON.parse(userString).id : null;
-  };
-
-  /**
-   * Extracts the user ID from a review object.
-   * Handles both string userId and populated UserData object.
-   * 
-   * @function getReviewUserId
-   * @param {Review} review - The review object.
-   * @returns {string} The user ID.
-   */
-  const getReviewUserId = (review: Review): string => {
-    return typeof review.userId === 'string' 
-      ? review.userId 
-      : review.userId._id;
-  };
+  const { user } = useAuth();
+  const currentUserId = user?.id ?? null;
 
   /**
    * Checks if a review belongs to the current user.
@@ -251,7 +250,6 @@ const MoviePage: React.FC = () => {
    * @returns {boolean} True if the review belongs to current user.
    */
   const isUserReview = (review: Review): boolean => {
-    const currentUserId = getCurrentUserId();
     if (!currentUserId) return false;
     return getReviewUserId(review) === currentUserId;
   };
@@ -270,17 +268,15 @@ const MoviePage: React.FC = () => {
    * Calculates the average rating from all reviews.
    * @type {number | null}
    */
-  const avgRating = reviews.length > 0 
-    ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length 
-    : null;
+  const avgRating = summarizeRatings(reviews).average;
 
   /**
    * Effect hook to fetch movie data and reviews on component mount.
-   * Runs when the movie ID changes.
+   * Runs when the movie ID changes; requests for the previous movie are cancelled.
    */
   useEffect(() => {
     if (!id) return;
-    let mounted = true;
+    const controller = new AbortController();
     setLoading(true);
     setError(null);
 
@@ -291,37 +287,28 @@ const MoviePage: React.FC = () => {
      */
     const fetchMovie = async () => {
       try {
-        const res = await apiClient.get<Movie>(`/api/v1/movies/${id}`);
-        if (!mounted) return;
+        const res = await movieService.getMovie<Movie>(id, controller.signal);
         setMovie(res);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error(err);
-        if (!mounted) return;
         setError('No se pudo cargar la película.');
       } finally {
-        if (!mounted) return;
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     /**
      * Fetches all reviews for the current movie.
-     * Also checks if current user has already reviewed.
      * @async
      * @function fetchReviews
      */
     const fetchReviews = async () => {
       try {
-        const res = await apiClient.get<Review[]>(`/api/v1/reviews/movie/${id}/`);
-        if (!mounted) return;
-        setReviews(res || []);
-
-        const currentUserId = getCurrentUserId();
-        if (currentUserId && res.length > 0) {
-          const hasReviewed = res.some((r) => getReviewUserId(r) === currentUserId);
-          setUserCommented(hasReviewed);
-        }
+        const res = await reviewService.getForMovie<Review>(id, controller.signal);
+        setReviews(res);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.warn('no reviews', err);
       }
     };
@@ -329,11 +316,17 @@ const MoviePage: React.FC = () => {
     fetchMovie();
     fetchReviews();
 
-    return () => {
-      mounted = false;
-    };
+    return () => controller.abort();
   }, [id]);
 
+  /**
+   * Tracks whether the signed-in user already reviewed the movie, also when
+   * the session is confirmed after the reviews arrived.
+   */
+  useEffect(() => {
+    setUserCommented(Boolean(currentUserId) && reviews.some((r) => getReviewUserId(r) === currentUserId));
+  }, [reviews, currentUserId]);
+
   /**
    * Handles the submission of a new review.
    * Validates user authentication, rating selection, and comment content.
@@ -347,9 +340,6 @@ const MoviePage: React.FC = () => {
     e.preventDefault();
     if (!newComment.trim() || !id) return;
 
-    const userString = localStorage.getItem('user');
-    const user = userString ? JSON.parse(userString) : null;
-    
     if (!user?.id) {
       window.alert('Debes iniciar sesión para dejar una reseña.');
       return;
@@ -369,19 +359,19 @@ const MoviePage: React.FC = () => {
         rating: newRating
       };
 
-      const created = await apiClient.post<Review>(`/api/v1/reviews`, payload);
+      const created = await reviewService.create<Review>(payload);
       
       setReviews((prev) => [created, ...prev]);
       setUserCommented(true);
       setNewComment('');
       setNewRating(0);
       notify('Review creado exitosamente.');
-    } catch (err: any) {
+    } catch (err) {
       console.error('review error', err);
-      if (err?.response?.status === 409) {
+      if (isConflictError(err)) {
         window.alert('Ya has reseñado esta película.');
         setUserCommented(true);
-      } else if (err?.response?.status === 400) {
+      } else if (isValidationError(err)) {
         window.alert('Faltan campos obligatorios. Asegúrate de agregar un comentario y una calificación.');
       } else {
         window.alert('Error al crear la reseña. Inténtalo de nuevo.');
@@ -443,9 +433,6 @@ const MoviePage: React.FC = () => {
     const userReview = getUserReview();
     if (!userReview) return;
 
-    const userString = localStorage.getItem('user');
-    const user = userString ? JSON.parse(userString) : null;
-    
     if (!user?.id) {
       window.alert('Debes iniciar sesión para eliminar una reseña.');
       return;
@@ -453,16 +440,16 @@ const MoviePage: React.FC = () => {
 
     setDeleting(true);
     try {
-      await apiClient.delete(`/api/v1/reviews/${userReview._id}`);
+      await reviewService.remove(userReview._id, userReview.movieId);
       
       setReviews((prev) => prev.filter((r) => r._id !== userReview._id));
       setUserCommented(false);
       closeDeleteModal();
       
       notify('Comentario eliminado exitosamente.');
-    } catch (err: any) {
+    } catch (err) {
       console.error('delete review error', err);
-      if (err?.response?.status === 404) {
+      if (isNotFoundError(err)) {
         window.alert('No se encontró tu reseña.');
       } else {
         window.alert('Error al eliminar la reseña. Inténtalo de nuevo.');
@@ -485,9 +472,6 @@ const MoviePage: React.FC = () => {
     e.preventDefault();
     if (!editComment.trim() || !id) return;
 
-    const userString = localStorage.getItem('user');
-    const user = userString ? JSON.parse(userString) : null;
-    
     if (!user?.id) {
       window.alert('Debes iniciar sesión para editar una reseña.');
       return;
@@ -507,7 +491,7 @@ const MoviePage: React.FC = () => {
         rating: editRating
       };
 
-      const updated = await apiClient.put<Review>(`/api/v1/reviews`, payload);
+      const updated = await reviewService.update<Review>(payload);
 
       notify('Comentario actualizado exitosamente.');
 
@@ -519,11 +503,11 @@ const MoviePage: React.FC = () => {
       
       closeEditModal();
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('update review error', err);
-      if (err?.response?.status === 404) {
+      if (isNotFoundError(err)) {
         window.alert('No se encontró tu reseña.');
-      } else if (err?.response?.status === 400) {
+      } else if (isValidationError(err)) {
         window.alert('Faltan campos obligatorios.');
       } else {
         window.alert('Error al actualizar la reseña. Inténtalo de nuevo.');
@@ -581,7 +565,7 @@ const MoviePage: React.FC = () => {
           <div className="movie-actions">
             <button 
               className="btn-primary"
-              onClick={() => setIsVideoModalOpen(true)}
+              onClick={() => openPlayer({ movieId: movie._id, title: movie.title, videoUrl: movie.videoUrl })}
               onMouseEnter={() => handleSpeak('Ver película completa')}
               onFocus={() => handleSpeak('Ver película completa')}
             >
@@ -595,14 +579,6 @@ const MoviePage: React.FC = () => {
             >
               Volver
             </button>
-            {isVideoModalOpen && (
-              <VideoModal
-                videoUrl={movie.videoUrl}
-                title={movie.title}
-                movieId={movie._id}
-                onClose={() => setIsVideoModalOpen(false)}
-              />
-            )}
           </div>
 
           <div className="movie-rating" aria-label="Calificación promedio de la película">
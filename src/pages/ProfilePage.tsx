@@ -2,6 +2,11 @@ import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router";
 import "../styles/ProfilePage.scss";
 import authService from "../services/authService";
+import { omitFieldError, splitFieldErrors } from "../services/apiClient";
+import FieldError from "../components/FieldError";
+import ActiveSessions from "../components/ActiveSessions";
+import { useAuth } from "../contexts/AuthContext";
+import { usePreference } from "../hooks/usePreference";
 import { ToastContainer, toast, Bounce } from 'react-toastify';
 
 /**
@@ -20,21 +25,35 @@ type User = {
   email: string;
 };
 
+/** Editable fields, named as the backend reports them in validation errors. */
+const PROFILE_FIELDS = ["firstName", "lastName", "age", "email"];
+
+/** Choices for the inactivity timeout, in minutes (0 = never). */
+const IDLE_TIMEOUT_OPTIONS = [
+  { value: 15, label: "15 minutos" },
+  { value: 30, label: "30 minutos" },
+  { value: 60, label: "1 hora" },
+  { value: 120, label: "2 horas" },
+  { value: 0, label: "Nunca" },
+];
+
 /**
  * User profile page component.
  * 
  * Allows viewing and editing the authenticated user's personal information.
- * Data is loaded from `localStorage` on component mount and synchronized
- * with the backend when saving changes.
+ * Data is taken from the session (`useAuth`) and synchronized with the
+ * backend when saving changes.
  * 
  * Features:
- * - Load user data from localStorage
+ * - Load user data from the session
  * - Edit first name, last name, and age
  * - Form validation
- * - Save changes to backend and localStorage
+ * - Save changes to the backend (the session picks them up)
  * - Reset form to original values
  * - Navigate to delete account page
  * - Navigate to change password page
+ * - Choose the inactivity timeout of the session
+ * - List the active sessions and close the ones on other devices
  * - Toast notifications for success/error feedback
  * 
  * @component
@@ -77,6 +96,12 @@ export const ProfilePage: React.FC = () => {
    * @type {[string[], Function]}
    */
   const [errors, setErrors] = useState<string[]>([]);
+
+  /**
+   * Backend validation messages, keyed by field name.
+   * @type {[Record<string, string>, Function]}
+   */
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   
   /**
    * Indicates if the save operation was successful.
@@ -91,49 +116,29 @@ export const ProfilePage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   
   /**
-   * Indicates if user information is being loaded from localStorage.
-   * @type {[boolean, Function]}
+   * Signed-in user (the route requires one).
    */
-  const [isLoadingUser, setIsLoadingUser] = useState(true);
+  const { user: sessionUser } = useAuth();
 
   /**
-   * Effect hook that runs when the component mounts.
-   * Loads user data from localStorage and redirects to login if data doesn't exist.
+   * Minutes of inactivity before the session is closed (0 = never).
+   */
+  const [idleTimeout, setIdleTimeout] = usePreference("idleTimeout");
+
+  /**
+   * Effect hook that fills the form with the signed-in user's data.
    */
   useEffect(() => {
-    /**
-     * Loads and parses user data from localStorage.
-     * If no data exists or an error occurs, redirects user to login page.
-     * 
-     * @function loadUserFromStorage
-     * @throws {Error} If an error occurs while parsing JSON data.
-     */
-    const loadUserFromStorage = () => {
-      try {
-        const userString = localStorage.getItem("user");
-        if (userString) {
-          const userData = JSON.parse(userString);
-          const userProfile: User = {
-            firstName: userData.firstName || "",
-            lastName: userData.lastName || "",
-            age: userData.age || 0,
-            email: userData.email || "",
-          };
-          setOriginal(userProfile);
-          setUser(userProfile);
-        } else {
-          navigate("/login");
-        }
-      } catch (error) {
-        console.error("Error al cargar usuario:", error);
-        navigate("/login");
-      } finally {
-        setIsLoadingUser(false);
-      }
+    if (!sessionUser) return;
+    const userProfile: User = {
+      firstName: sessionUser.firstName || "",
+      lastName: sessionUser.lastName || "",
+      age: sessionUser.age || 0,
+      email: sessionUser.email || "",
     };
-
-    loadUserFromStorage();
-  }, [navigate]);
+    setOriginal(userProfile);
+    setUser(userProfile);
+  }, [sessionUser]);
 
   /**
    * Validates the user form data.
@@ -158,7 +163,7 @@ export const ProfilePage: React.FC = () => {
 
   /**
    * Handles the profile update form submission.
-   * Validates data, sends request to backend, and updates localStorage.
+   * Validates data and sends request to backend, which updates the session.
    * 
    * @async
    * @function handleSubmit
@@ -171,6 +176,7 @@ export const ProfilePage: React.FC = () => {
 
     const v = validate();
     setErrors(v);
+    setFieldErrors({});
     setSuccess(false);
 
     if (v.length === 0) {
@@ -185,32 +191,36 @@ export const ProfilePage: React.FC = () => {
 
         console.log(res.message);
         
-        const userString = localStorage.getItem("user");
         notify('Perfil actualizado exitosamente.');
-        if (userString) {
-          const userData = JSON.parse(userString);
-          const updatedUser = {
-            ...userData,
-            firstName: user.firstName,
-            lastName: user.lastName,
-            age: user.age,
-            email: user.email,
-          };
-          localStorage.setItem("user", JSON.stringify(updatedUser));
-          setOriginal(user);
-        }
+        setOriginal(user);
 
         setSuccess(true);
         setTimeout(() => setSuccess(false), 3000);
       } catch (err) {
         console.error("Error al guardar:", err);
-        setErrors(["No se pudo actualizar la información del usuario."]);
+        const { fieldErrors, messages } = splitFieldErrors(err, PROFILE_FIELDS, "No se pudo actualizar la información del usuario.");
+        setFieldErrors(fieldErrors);
+        setErrors(messages);
       } finally {
         setLoading(false);
       }
     }
   };
 
+  /**
+   * Updates a field of the form and drops its backend message, which no
+   * longer applies to the edited value.
+   *
+   * @function updateField
+   * @param {K} field - Field to update.
+   * @param {User[K]} value - New value.
+   * @returns {void}
+   */
+  const updateField = <K extends keyof User>(field: K, value: User[K]): void => {
+    setUser((current) => (current ? { ...current, [field]: value } : current));
+    setFieldErrors((current) => omitFieldError(current, field));
+  };
+
   /**
    * Restores user data to its original state.
    * Clears errors and success messages.
@@ -222,6 +232,7 @@ export const ProfilePage: React.FC = () => {
     if (original) {
       setUser({ ...original });
       setErrors([]);
+      setFieldErrors({});
       setSuccess(false);
     }
   };
@@ -246,7 +257,7 @@ export const ProfilePage: React.FC = () => {
     navigate("/changePassword");
   };
 
-  if (isLoadingUser || !user) {
+  if (!user) {
     return (
       <div className="profile-page">
         <div className="profile-card">
@@ -293,10 +304,13 @@ export const ProfilePage: React.FC = () => {
               id="firstName"
               className="form-input"
               value={user.firstName}
-              onChange={(e) => setUser({ ...user, firstName: e.target.value })}
+              onChange={(e) => updateField("firstName", e.target.value)}
               required
               autoComplete="given-name"
+              aria-invalid={Boolean(fieldErrors.firstName)}
+              aria-describedby={fieldErrors.firstName ? "firstName-error" : undefined}
             />
+            <FieldError id="firstName-error" message={fieldErrors.firstName} />
           </label>
 
           <label className="form-label" htmlFor="lastName">
@@ -305,10 +319,13 @@ export const ProfilePage: React.FC = () => {
               id="lastName"
               className="form-input"
               value={user.lastName}
-              onChange={(e) => setUser({ ...user, lastName: e.target.value })}
+              onChange={(e) => updateField("lastName", e.target.value)}
               required
               autoComplete="family-name"
+              aria-invalid={Boolean(fieldErrors.lastName)}
+              aria-describedby={fieldErrors.lastName ? "lastName-error" : undefined}
             />
+            <FieldError id="lastName-error" message={fieldErrors.lastName} />
           </label>
 
           <label className="form-label" htmlFor="age">
@@ -319,16 +336,25 @@ export const ProfilePage: React.FC = () => {
               type="number"
               min={1}
               value={String(user.age)}
-              onChange={(e) =>
-                setUser({ ...user, age: Number(e.target.value) })
-              }
+              onChange={(e) => updateField("age", Number(e.target.value))}
               required
+              aria-invalid={Boolean(fieldErrors.age)}
+              aria-describedby={fieldErrors.age ? "age-error" : undefined}
             />
+            <FieldError id="age-error" message={fieldErrors.age} />
           </label>
 
           <label className="form-label" htmlFor="email">
             Correo electrónico
-            <input id="email" className="form-input" value={user.email} disabled />
+            <input
+              id="email"
+              className="form-input"
+              value={user.email}
+              disabled
+              aria-invalid={Boolean(fieldErrors.email)}
+              aria-describedby={fieldErrors.email ? "email-error" : undefined}
+            />
+            <FieldError id="email-error" message={fieldErrors.email} />
           </label>
 
           <div className="profile-actions">
@@ -356,6 +382,27 @@ export const ProfilePage: React.FC = () => {
             Eliminar cuenta
           </button>
         </form>
+
+        <section className="profile-settings" aria-labelledby="profile-settings-title">
+          <h3 id="profile-settings-title" className="profile-subtitle">Seguridad</h3>
+          <label className="form-label" htmlFor="idleTimeout">
+            Cerrar sesión por inactividad
+            <select
+              id="idleTimeout"
+              className="form-input"
+              value={idleTimeout}
+              onChange={(e) => setIdleTimeout(Number(e.target.value))}
+            >
+              {IDLE_TIMEOUT_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        <ActiveSessions />
       </div>
     </div>
   );
@@ -1,9 +1,14 @@
 import React, { useState, FormEvent } from "react";
 import { useNavigate } from "react-router-dom";
 import authService from "../services/authService";
+import { omitFieldError, splitFieldErrors } from "../services/apiClient";
+import FieldError from "../components/FieldError";
 import "../styles/RegisterPage.scss";
 import { useSpeech } from "../contexts/SpeechContext";
 
+/** Fields of the form, named as the backend reports them in validation errors. */
+const REGISTER_FIELDS = ["firstName", "lastName", "age", "email", "password", "confirmPassword"];
+
 /**
  * RegisterPage Component
  * 
@@ -31,9 +36,13 @@ export const RegisterPage: React.FC = () => {
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [errors, setErrors] = useState<string[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
 
+  /** Drops the backend message of a field once the user edits it. */
+  const clearFieldError = (field: string) => setFieldErrors((current) => omitFieldError(current, field));
+
   /** Speech synthesis context for accessibility */
   const { handleSpeak } = useSpeech();
 
@@ -102,6 +111,7 @@ export const RegisterPage: React.FC = () => {
     // Validate fields
     const errs = validate();
     setErrors(errs);
+    setFieldErrors({});
     
     if (errs.length > 0) {
       return;
@@ -125,8 +135,10 @@ export const RegisterPage: React.FC = () => {
       // Redirect to login or dashboard
       navigate("/login");
       
-    } catch (error: any) {
-      setErrors([error.message || "Error al crear la cuenta"]);
+    } catch (error) {
+      const { fieldErrors, messages } = splitFieldErrors(error, REGISTER_FIELDS, "Error al crear la cuenta");
+      setFieldErrors(fieldErrors);
+      setErrors(messages);
       console.error("Error en registro:", error);
     } finally {
       setLoading(false);
@@ -150,11 +162,17 @@ export const RegisterPage: React.FC = () => {
                 className="form-input"
                 type="text"
                 value={firstName}
-                onChange={(e) => setFirstName(e.target.value)}
+                onChange={(e) => {
+                  setFirstName(e.target.value);
+                  clearFieldError("firstName");
+                }}
                 onFocus={() => handleSpeak('Ingresa tu nombre')}
                 disabled={loading}
                 aria-label="Campo de nombre"
+                aria-invalid={Boolean(fieldErrors.firstName)}
+                aria-describedby={fieldErrors.firstName ? "firstName-error" : undefined}
               />
+              <FieldError id="firstName-error" message={fieldErrors.firstName} />
             </label>
 
             <label 
@@ -167,11 +185,17 @@ export const RegisterPage: React.FC = () => {
                 className="form-input"
                 type="text"
                 value={lastName}
-                onChange={(e) => setLastName(e.target.value)}
+                onChange={(e) => {
+                  setLastName(e.target.value);
+                  clearFieldError("lastName");
+                }}
                 onFocus={() => handleSpeak('Ingresa tus apellidos')}
                 disabled={loading}
                 aria-label="Campo de apellidos"
+                aria-invalid={Boolean(fieldErrors.lastName)}
+                aria-describedby={fieldErrors.lastName ? "lastName-error" : undefined}
               />
+              <FieldError id="lastName-error" message={fieldErrors.lastName} />
             </label>
 
             <label 
@@ -186,11 +210,17 @@ export const RegisterPage: React.FC = () => {
                 min={13}
                 max={120}
                 value={age}
-                onChange={(e) => setAge(e.target.value)}
+                onChange={(e) => {
+                  setAge(e.target.value);
+                  clearFieldError("age");
+                }}
                 onFocus={() => handleSpeak('Ingresa tu edad, debes tener al menos 13 años')}
                 disabled={loading}
                 aria-label="Campo de edad"
+                aria-invalid={Boolean(fieldErrors.age)}
+                aria-describedby={fieldErrors.age ? "age-error" : undefined}
               />
+              <FieldError id="age-error" message={fieldErrors.age} />
             </label>
 
             <label 
@@ -203,11 +233,17 @@ export const RegisterPage: React.FC = () => {
                 className="form-input"
                 type="email"
                 value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  clearFieldError("email");
+                }}
                 onFocus={() => handleSpeak('Ingresa tu correo electrónico')}
                 disabled={loading}
                 aria-label="Campo de correo electrónico"
+                aria-invalid={Boolean(fieldErrors.email)}
+                aria-describedby={fieldErrors.email ? "email-error" : undefined}
               />
+              <FieldError id="email-error" message={fieldErrors.email} />
             </label>
 
             <label 
@@ -220,11 +256,17 @@ export const RegisterPage: React.FC = () => {
                 className="form-input"
                 type="password"
                 value={password}
-                onChange={(e) => setPassword(e.target.value)}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  clearFieldError("password");
+                }}
                 onFocus={() => handleSpeak('Ingresa tu contraseña, mínimo 8 caracteres con mayúscula, número y carácter especial')}
                 disabled={loading}
                 aria-label="Campo de contraseña"
+                aria-invalid={Boolean(fieldErrors.password)}
+                aria-describedby={fieldErrors.password ? "password-error" : undefined}
               />
+              <FieldError id="password-error" message={fieldErrors.password} />
             </label>
 
             <label 
@@ -237,11 +279,17 @@ export const RegisterPage: React.FC = () => {
                 className="form-input"
                 type="password"
                 value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
+                onChange={(e) => {
+                  setConfirmPassword(e.target.value);
+                  clearFieldError("confirmPassword");
+                }}
                 onFocus={() => handleSpeak('Confirma tu contraseña')}
                 disabled={loading}
                 aria-label="Campo de confirmación de contraseña"
+                aria-invalid={Boolean(fieldErrors.confirmPassword)}
+                aria-describedby={fieldErrors.confirmPassword ? "confirmPassword-error" : undefined}
               />
+              <FieldError id="confirmPassword-error" message={fieldErrors.confirmPassword} />
             </label>
 
             {errors.length > 0 && (
@@ -0,0 +1,370 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router';
+import '../styles/SearchPage.scss';
+import searchService, { DURATION_RANGES, parseSearchFilters, toSearchParams, hasActiveFilters } from '../services/searchService';
+import type { SearchMovie, SearchFilters, SearchSort, DurationRange } from '../services/searchService';
+import { isAbortError } from '../services/apiClient';
+import { useSpeech } from '../contexts/SpeechContext';
+import { usePlayer } from '../contexts/PlayerContext';
+import { useAuth } from '../contexts/AuthContext';
+import type { PlayerMedia } from '../contexts/PlayerContext';
+
+/**
+ * Converts a search result into the shape used by the app-level player.
+ *
+ * @param {SearchMovie} movie - Search result
+ * @returns {PlayerMedia} Player media
+ */
+const toPlayerMedia = (movie: SearchMovie): PlayerMedia => ({
+  movieId: movie._id,
+  title: movie.title,
+  videoUrl: movie.videoUrl,
+  imageUrl: movie.imageUrl,
+});
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Relevancia',
+  popularity: 'Popularidad',
+  rating: 'Mejor valoradas',
+  duration: 'Duración (más cortas primero)',
+};
+
+const MIN_RATING_OPTIONS = [4, 3, 2, 1];
+
+/**
+ * SearchPage Component
+ *
+ * Paginated movie search results. The query, page, filters and ordering live
+ * in the URL (`/search?q=...&sort=...&duration=...&page=...`), so results can
+ * be shared and bookmarked and the browser history moves between them.
+ *
+ * Features:
+ * - Search form pre-filled with the current query
+ * - Filter sidebar: duration, author, minimum rating and favorites only
+ * - Sorting by relevance, popularity, rating or duration
+ * - Results grid with play and details actions
+ * - Previous/next pagination
+ * - Loading, empty and error states
+ *
+ * @component
+ * @returns {JSX.Element} The rendered search page
+ */
+export const SearchPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const filters = useMemo(() => parseSearchFilters(searchParams), [searchParams]);
+  const requestedFilters = hasActiveFilters(filters);
+
+  const [draft, setDraft] = useState(query);
+  const [results, setResults] = useState<SearchMovie[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [authors, setAuthors] = useState<string[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  /** Whether the backend applies filters; if not, the filter controls are hidden. */
+  const [filtersSupported, setFiltersSupported] = useState(true);
+  const filtersActive = requestedFilters && filtersSupported;
+  const [loading, setLoading] = useState(Boolean(query.trim()));
+  const [error, setError] = useState<string | null>(null);
+
+  const { handleSpeak } = useSpeech();
+  const { open } = usePlayer();
+  const { user } = useAuth();
+  const isLoggedIn = Boolean(user);
+  const userId = user?.id ?? null;
+
+  /**
+   * Keeps the search box in sync when the query changes from outside
+   * (Navbar search, back/forward navigation).
+   *
+   * @effect
+   * @listens query
+   */
+  useEffect(() => {
+    setDraft(query);
+  }, [query]);
+
+  /**
+   * Fetches the requested page of results.
+   *
+   * @effect
+   * @listens query
+   * @listens page
+   * @listens filters
+   * @listens userId - The favorites filter depends on who is signed in
+   */
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setTotal(0);
+      setTotalPages(0);
+      setAuthors([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const load = async () => {
+      setLoading(true);
+      try {
+        const response = await searchService.search(query, page, undefined, filters, controller.signal);
+        setResults(response.results);
+        setTotal(response.total);
+        setTotalPages(response.totalPages);
+        setAuthors(response.authors);
+        setFiltersSupported(response.filtersSupported);
+        setError(null);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Error al buscar películas:', err);
+        setError('No se pudo completar la búsqueda.');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [query, page, filters, userId]);
+
+  /**
+   * Starts a new search from the first page.
+   *
+   * @param {React.FormEvent} e - Form submit event
+   * @returns {void}
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = draft.trim();
+    if (next) setSearchParams(toSearchParams(next, filters));
+  };
+
+  /**
+   * Changes some filters and goes back to the first page.
+   *
+   * @param {Partial<SearchFilters>} changes - Filters to change
+   * @returns {void}
+   */
+  const updateFilters = (changes: Partial<SearchFilters>) => {
+    setSearchParams(toSearchParams(query, { ...filters, ...changes }));
+  };
+
+  const clearFilters = () => {
+    setSearchParams(toSearchParams(query));
+  };
+
+  /**
+   * Moves to another page of results.
+   *
+   * @param {number} target - Page number, starting at 1
+   * @returns {void}
+   */
+  const goToPage = (target: number) => {
+    setSearchParams(toSearchParams(query, filters, target));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const playMovie = (movie: SearchMovie) => {
+    open(toPlayerMedia(movie), { queue: results.map(toPlayerMedia) });
+  };
+
+  return (
+    <main className="search-page">
+      <form className="search-page-form" role="search" onSubmit={handleSubmit}>
+        <input
+          className="search-page-input"
+          type="search"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Buscar por título, autor o descripción"
+          aria-label="Buscar películas"
+        />
+        <button type="submit" className="search-page-submit" onMouseEnter={() => handleSpeak('Buscar')} onFocus={() => handleSpeak('Buscar')}>
+          Buscar
+        </button>
+      </form>
+
+      {query.trim() && (
+        <h1 className="search-page-title" aria-live="polite">
+          {loading ? 'Buscando…' : `${total} ${total === 1 ? 'resultado' : 'resultados'} para "${query}"`}
+        </h1>
+      )}
+
+      {query.trim() && !filtersSupported && requestedFilters && (
+        <p className="search-filters-unsupported" role="status">
+          Los filtros no están disponibles por ahora; se muestran todos los resultados.
+        </p>
+      )}
+
+      {query.trim() && filtersSupported && (
+        <button
+          type="button"
+          className="search-filters-toggle"
+          onClick={() => setShowFilters((prev) => !prev)}
+          aria-expanded={showFilters}
+          aria-controls="search-filters"
+        >
+          {showFilters ? 'Ocultar filtros' : 'Filtros'}
+          {filtersActive ? ' •' : ''}
+        </button>
+      )}
+
+      <div className="search-layout">
+        {query.trim() && filtersSupported && (
+          <aside id="search-filters" className={`search-filters ${showFilters ? 'open' : ''}`} aria-label="Filtros de búsqueda">
+            <label className="search-filter">
+              <span className="search-filter-label">Ordenar por</span>
+              <select
+                value={filters.sort ?? 'relevance'}
+                onChange={(e) => updateFilters({ sort: e.target.value as SearchSort })}
+              >
+                {(Object.keys(SORT_LABELS) as SearchSort[]).map((sort) => (
+                  <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+                ))}
+              </select>
+            </label>
+
+            <fieldset className="search-filter">
+              <legend className="search-filter-label">Duración</legend>
+              <label className="search-filter-option">
+                <input
+                  type="radio"
+                  name="duration"
+                  checked={!filters.duration}
+                  onChange={() => updateFilters({ duration: undefined })}
+                />
+                Cualquiera
+              </label>
+              {(Object.keys(DURATION_RANGES) as DurationRange[]).map((range) => (
+                <label key={range} className="search-filter-option">
+                  <input
+                    type="radio"
+                    name="duration"
+                    checked={filters.duration === range}
+                    onChange={() => updateFilters({ duration: range })}
+                  />
+                  {DURATION_RANGES[range].label}
+                </label>
+              ))}
+            </fieldset>
+
+            <label className="search-filter">
+              <span className="search-filter-label">Autor</span>
+              <select
+                value={filters.author ?? ''}
+                onChange={(e) => updateFilters({ author: e.target.value || undefined })}
+              >
+                <option value="">Todos</option>
+                {/* Keep the selected author listed even if the current search has no matches by them */}
+                {filters.author && !authors.includes(filters.author) && (
+                  <option value={filters.author}>{filters.author}</option>
+                )}
+                {authors.map((author) => (
+                  <option key={author} value={author}>{author}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="search-filter">
+              <span className="search-filter-label">Valoración mínima</span>
+              <select
+                value={filters.minRating ?? ''}
+                onChange={(e) => updateFilters({ minRating: Number(e.target.value) || undefined })}
+              >
+                <option value="">Cualquiera</option>
+                {MIN_RATING_OPTIONS.map((rating) => (
+                  <option key={rating} value={rating}>{'★'.repeat(rating)} o más</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="search-filter search-filter-option" title={isLoggedIn ? undefined : 'Inicia sesión para filtrar por tus favoritos'}>
+              <input
+                type="checkbox"
+                checked={Boolean(filters.favoritesOnly)}
+                disabled={!isLoggedIn}
+                onChange={(e) => updateFilters({ favoritesOnly: e.target.checked || undefined })}
+              />
+              Solo mis favoritos
+            </label>
+
+            {filtersActive && (
+              <button
+                type="button"
+                className="search-filters-clear"
+                onClick={clearFilters}
+                onMouseEnter={() => handleSpeak('Limpiar filtros')}
+                onFocus={() => handleSpeak('Limpiar filtros')}
+              >
+                Limpiar filtros
+              </button>
+            )}
+          </aside>
+        )}
+
+        <div className="search-main">
+          {error ? (
+            <p className="error-message">{error}</p>
+          ) : !query.trim() ? (
+            <p className="search-page-empty">Escribe algo para buscar películas.</p>
+          ) : !loading && results.length === 0 ? (
+            <p className="search-page-empty">
+              {filtersActive
+                ? 'Ninguna película coincide con los filtros seleccionados.'
+                : 'No encontramos películas que coincidan con tu búsqueda.'}
+            </p>
+          ) : (
+            <section className="search-results" aria-busy={loading}>
+              {results.map((movie) => (
+                <article key={movie._id} className="search-result">
+                  <button
+                    type="button"
+                    className="search-result-play"
+                    onClick={() => playMovie(movie)}
+                    onMouseEnter={() => handleSpeak(`Reproducir ${movie.title}`)}
+                    onFocus={() => handleSpeak(`Reproducir ${movie.title}`)}
+                    aria-label={`Reproducir ${movie.title}`}
+                  >
+                    <img className="search-result-thumb" src={movie.imageUrl} alt="" />
+                    <span className="search-result-overlay" aria-hidden="true">▶</span>
+                  </button>
+                  <div className="search-result-body">
+                    <h2 className="search-result-title">{movie.title}</h2>
+                    <p className="search-result-meta">
+                      {movie.author ?? ''}
+                      {movie.duration ? ` · ${Math.floor(movie.duration / 60)}m` : ''}
+                    </p>
+                    <Link
+                      className="search-result-details"
+                      to={`/movies/${movie._id}`}
+                      onMouseEnter={() => handleSpeak(`Ver ficha de ${movie.title}`)}
+                      onFocus={() => handleSpeak(`Ver ficha de ${movie.title}`)}
+                    >
+                      Ver ficha completa
+                    </Link>
+                  </div>
+                </article>
+              ))}
+            </section>
+          )}
+
+          {totalPages > 1 && !error && (
+            <nav className="search-pagination" aria-label="Paginación de resultados">
+              <button type="button" onClick={() => goToPage(page - 1)} disabled={page <= 1 || loading}>
+                Anterior
+              </button>
+              <span className="search-pagination-status">
+                Página {page} de {totalPages}
+              </span>
+              <button type="button" onClick={() => goToPage(page + 1)} disabled={page >= totalPages || loading}>
+                Siguiente
+              </button>
+            </nav>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default SearchPage;
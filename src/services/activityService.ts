@@ -0,0 +1,72 @@
+// src/services/activityService.ts
+import sessionSync from './sessionSync';
+
+/** Minimum time (ms) between two activity messages sent to the other tabs. */
+const BROADCAST_INTERVAL = 15 * 1000;
+
+/**
+ * Tracks when the user was last active, in this tab or in any other open tab
+ * of the app, so the inactivity timeout never closes a session that is being
+ * used elsewhere. Activity can also be held (e.g. while a video plays), which
+ * keeps the user active until released.
+ * @class
+ */
+class ActivityService {
+  private lastActivity = Date.now();
+  private lastBroadcast = 0;
+  private holds = 0;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    sessionSync.subscribe((message) => {
+      if (message.type === 'activity') this.lastActivity = Date.now();
+    });
+  }
+
+  /**
+   * Records activity in this tab and lets the other tabs know (throttled).
+   * @returns {void}
+   */
+  markActive(): void {
+    const now = Date.now();
+    this.lastActivity = now;
+    if (now - this.lastBroadcast >= BROADCAST_INTERVAL) {
+      this.lastBroadcast = now;
+      sessionSync.publish({ type: 'activity' });
+    }
+  }
+
+  /**
+   * Keeps the user active until the returned function is called. While any
+   * hold is active, the other tabs are told so periodically.
+   * @returns {() => void} Releases the hold (calling it again does nothing).
+   */
+  hold(): () => void {
+    this.holds += 1;
+    this.markActive();
+    if (!this.heartbeat) this.heartbeat = setInterval(() => this.markActive(), BROADCAST_INTERVAL);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.holds -= 1;
+      this.lastActivity = Date.now(); // The inactivity period starts when the video stops
+      if (this.holds === 0 && this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = null;
+      }
+    };
+  }
+
+  /**
+   * Gets how long the user has been inactive, in any tab.
+   * @returns {number} Milliseconds since the last activity (0 while held).
+   */
+  getIdleTime(): number {
+    return this.holds > 0 ? 0 : Date.now() - this.lastActivity;
+  }
+}
+
+const activityService = new ActivityService();
+export default activityService;
@@ -1,15 +1,130 @@
 // src/services/apiClient.ts
+import { abortedError, createHttpError, createTransportError, isApiError } from "./apiErrors";
+import type { ApiError } from "./apiErrors";
+import { correlationId, latencyLogger } from "./apiMiddleware";
 
 /**
- * Represents an API error with message and HTTP status code.
+ * How a failed request is retried.
  */
-interface ApiError {
-  /** Descriptive error message. */
-  message: string;
-  /** HTTP status code (0 if network error). */
+interface RetryPolicy {
+  /** Retries after the first attempt. */
+  retries: number;
+  /** Delay (ms) before the first retry; doubles on every retry. */
+  baseDelay: number;
+  /** Upper bound (ms) of the backoff delay. */
+  maxDelay: number;
+  /** HTTP statuses worth retrying. Network errors (status 0) are always retried. */
+  retryOn: number[];
+}
+
+/**
+ * Per-request options.
+ */
+interface RequestOptions {
+  /**
+   * Retry behavior. `true` or a partial policy enables retries (merged with the
+   * defaults), `false` disables them. When omitted, only idempotent methods retry.
+   */
+  retry?: boolean | Partial<RetryPolicy>;
+  /** Cancels the request, including pending retries. */
+  signal?: AbortSignal;
+  /** Time (ms) each attempt may take before failing with a `timeout` error. */
+  timeout?: number;
+}
+
+/**
+ * A request on its way through the middleware pipeline. Request interceptors
+ * may change it in place or return a new one.
+ */
+interface ApiRequest {
+  /** Resource path (e.g., "/users"). */
+  endpoint: string;
+  /** HTTP method, in uppercase. */
+  method: string;
+  /** Headers to send. */
+  headers: Headers;
+  /** Serialized body, if any. */
+  body?: BodyInit | null;
+  /** Per-request options (retries, cancellation, timeout). */
+  options: RequestOptions;
+  /** Scratch space shared by the phases of a request (e.g. when it started). */
+  meta: Record<string, unknown>;
+}
+
+/**
+ * A successful response, with its body already parsed. Response interceptors
+ * may change it in place or return a new one.
+ */
+interface ApiResponse {
   status: number;
+  headers: Headers;
+  /** Parsed JSON body, returned to the caller. */
+  data: unknown;
+}
+
+/**
+ * Hooks into every request made through `apiClient`. All of them are optional
+ * and may be async.
+ * - `onRequest` runs before the first attempt, in registration order.
+ * - `onResponse` runs on success, in reverse registration order.
+ * - `onError` runs when the request finally fails (after its retries), in
+ *   reverse registration order. Returning an error replaces the one thrown.
+ */
+interface Middleware {
+  onRequest?(request: ApiRequest): ApiRequest | void | Promise<ApiRequest | void>;
+  onResponse?(response: ApiResponse, request: ApiRequest): ApiResponse | void | Promise<ApiResponse | void>;
+  onError?(error: ApiError, request: ApiRequest): ApiError | void | Promise<ApiError | void>;
 }
 
+/** Retries used by idempotent requests, or when a request opts in with `retry: true`. */
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 300,
+  maxDelay: 5000,
+  retryOn: [429, 502, 503, 504],
+};
+
+/** Default time (ms) each attempt may take. */
+const DEFAULT_TIMEOUT = 20000;
+
+/** Longest `Retry-After` (ms) worth waiting for; beyond it the error is returned right away. */
+const MAX_RETRY_AFTER = 30000;
+
+/** Methods that are safe to repeat without side effects. */
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ * @param value - Header value.
+ * @returns Wait in milliseconds, or `undefined` if missing or malformed.
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Waits before a retry, stopping early if the request is cancelled.
+ * @param ms - Delay in milliseconds.
+ * @param signal - Cancellation signal of the request.
+ */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortedError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
 /**
  * Generic HTTP client for interacting with the backend.
  *
@@ -17,16 +132,27 @@ interface ApiError {
  * - Configurable base URL.
  * - Automatic inclusion of cookies (`credentials: 'include'`).
  * - Centralized error handling.
+ * - Automatic retries with exponential backoff and jitter for idempotent
+ *   requests (network errors, timeouts, 429, 502, 503 and 504), honoring `Retry-After`.
+ * - Cancellation through an `AbortSignal` and a per-attempt timeout.
+ * - A middleware pipeline (`use`) to attach headers, log or translate errors
+ *   in a single place.
  * - Generic methods (`get`, `post`, `put`, `delete`, `patch`).
  *
  * @example
  * ```ts
  * const users = await apiClient.get<User[]>("/users");
  * const newUser = await apiClient.post<User>("/users", { name: "Pablo" });
+ * // Mutations only retry when asked to
+ * await apiClient.put("/progress", entry, { retry: { retries: 2 } });
+ * // Cancel when the component unmounts
+ * const controller = new AbortController();
+ * apiClient.get<Movie>(`/movies/${id}`, { signal: controller.signal, timeout: 5000 });
  * ```
  */
 class ApiClient {
   private baseURL: string;
+  private middlewares: Middleware[] = [];
 
   /**
    * Creates a new instance of the API client.
@@ -37,48 +163,151 @@ class ApiClient {
   }
 
   /**
-   * Makes a generic HTTP request using `fetch`.
+   * Adds a middleware at the end of the pipeline.
+   * @param middleware - Interceptors to run on every request.
+   * @returns Function that removes the middleware again.
+   */
+  use(middleware: Middleware): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      this.middlewares = this.middlewares.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Makes an HTTP request through the middleware pipeline.
+   *
+   * @template T Expected response type.
+   * @param endpoint - Resource path (e.g., "/users").
+   * @param config - Optional `RequestInit` configuration.
+   * @param options - Per-request options (retries, cancellation, timeout).
+   * @returns Promise that resolves with data of type `T`.
+   * @throws {ApiError} If the request fails, as left by the error interceptors.
+   */
+  private async request<T>(endpoint: string, config: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
+    // Middlewares added or removed meanwhile do not affect a request in flight
+    const middlewares = [...this.middlewares];
+    let request: ApiRequest = {
+      endpoint,
+      method: (config.method ?? "GET").toUpperCase(),
+      headers: new Headers({ "Content-Type": "application/json", ...config.headers }),
+      body: config.body,
+      options,
+      meta: {},
+    };
+
+    try {
+      for (const middleware of middlewares) {
+        request = (await middleware.onRequest?.(request)) ?? request;
+      }
+      let response = await this.sendWithRetries(request);
+      for (const middleware of [...middlewares].reverse()) {
+        response = (await middleware.onResponse?.(response, request)) ?? response;
+      }
+      return response.data as T;
+    } catch (error) {
+      if (!isApiError(error)) throw error;
+      let apiError = error;
+      for (const middleware of [...middlewares].reverse()) {
+        apiError = (await middleware.onError?.(apiError, request)) ?? apiError;
+      }
+      throw apiError;
+    }
+  }
+
+  /**
+   * Sends a request, retrying it according to its retry policy.
+   *
+   * @param request - Request to send.
+   * @returns The successful response.
+   * @throws {ApiError} If the last attempt fails.
+   */
+  private async sendWithRetries(request: ApiRequest): Promise<ApiResponse> {
+    const { options } = request;
+    const policy = this.resolveRetryPolicy(request.method, options.retry);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(request);
+      } catch (error) {
+        const apiError = error as ApiError;
+        const retryable =
+          apiError.kind === "network" || apiError.kind === "timeout" || (apiError.status > 0 && policy.retryOn.includes(apiError.status));
+        if (!retryable || attempt >= policy.retries) throw apiError;
+        if (apiError.retryAfter !== undefined && apiError.retryAfter > MAX_RETRY_AFTER) throw apiError;
+
+        // Full jitter, so clients that failed together do not retry together
+        const backoff = Math.random() * Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+        await wait(Math.max(backoff, apiError.retryAfter ?? 0), options.signal);
+      }
+    }
+  }
+
+  /**
+   * Combines the request's retry option with the defaults for its method.
+   * @param method - HTTP method.
+   * @param retry - Retry option of the request.
+   * @returns Policy to apply (`retries: 0` when the request must not be retried).
+   */
+  private resolveRetryPolicy(method: string, retry: RequestOptions["retry"]): RetryPolicy {
+    if (retry === false) return { ...DEFAULT_RETRY_POLICY, retries: 0 };
+    if (retry === undefined) {
+      return IDEMPOTENT_METHODS.includes(method) ? DEFAULT_RETRY_POLICY : { ...DEFAULT_RETRY_POLICY, retries: 0 };
+    }
+    return retry === true ? DEFAULT_RETRY_POLICY : { ...DEFAULT_RETRY_POLICY, ...retry };
+  }
+
+  /**
+   * Makes a single HTTP request using `fetch`.
    *
    * Handles:
    * - Building the full URL.
    * - Including cookies (for `httpOnly` authentication).
    * - Handling network errors or unsuccessful responses.
    *
-   * @template T Expected response type.
-   * @param endpoint - Resource path (e.g., "/users").
-   * @param config - Optional `RequestInit` configuration.
-   * @returns Promise that resolves with data of type `T`.
-   * @throws {ApiError} If an HTTP or network error occurs.
+   * @param request - Request to send.
+   * @returns The successful response, with its body parsed.
+   * @throws {ApiError} If an HTTP or network error occurs, the attempt times out or is cancelled.
    */
-  private async request<T>(endpoint: string, config: RequestInit = {}): Promise<T> {
-    const url = `${this.baseURL}${endpoint}`;
+  private async send(request: ApiRequest): Promise<ApiResponse> {
+    const url = `${this.baseURL}${request.endpoint}`;
+    const { signal, timeout = DEFAULT_TIMEOUT } = request.options;
+    if (signal?.aborted) throw abortedError();
+
+    // One controller per attempt, aborted by the caller's signal or by the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
 
     try {
       const response = await fetch(url, {
         credentials: "include",
-        headers: {
-          "Content-Type": "application/json",
-          ...config.headers,
-        },
-        ...config,
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
       });
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ message: `Error ${response.status}` }));
-        throw {
-          message: errorData.message || `Error ${response.status}`,
-          status: response.status,
-        } as ApiError;
+        const errorData = await response.json().catch(() => null);
+        throw createHttpError(response.status, errorData, parseRetryAfter(response.headers.get("Retry-After")));
       }
 
-      return await response.json();
+      return { status: response.status, headers: response.headers, data: await response.json() };
     } catch (error: any) {
-      if (error.status) throw error;
+      if (isApiError(error)) throw error;
+      if (timedOut) throw createTransportError("timeout", "El servidor tardó demasiado en responder");
+      if (signal?.aborted) throw abortedError();
 
-      throw {
-        message: error.message || "Error de conexión",
-        status: 0,
-      } as ApiError;
+      throw createTransportError("network", error?.message || "Error de conexión");
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
@@ -86,10 +315,11 @@ class ApiClient {
    * Sends a GET request.
    * @template T Expected response type.
    * @param endpoint - Resource path.
+   * @param options - Per-request options (retried by default).
    * @returns Promise with data of type `T`.
    */
-  async get<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: "GET" });
+  async get<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>(endpoint, { method: "GET" }, options);
   }
 
   /**
@@ -97,13 +327,14 @@ class ApiClient {
    * @template T Expected response type.
    * @param endpoint - Resource path.
    * @param body - Request body (optional).
+   * @param options - Per-request options (not retried unless `retry` is set).
    * @returns Promise with data of type `T`.
    */
-  async post<T>(endpoint: string, body?: any): Promise<T> {
+  async post<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<T> {
     return this.request<T>(endpoint, {
       method: "POST",
       body: JSON.stringify(body),
-    });
+    }, options);
   }
 
   /**
@@ -111,23 +342,26 @@ class ApiClient {
    * @template T Expected response type.
    * @param endpoint - Resource path.
    * @param body - Request body (optional).
+   * @param options - Per-request options (not retried unless `retry` is set).
    * @returns Promise with data of type `T`.
    */
-  async put<T>(endpoint: string, body?: any): Promise<T> {
+  async put<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<T> {
     return this.request<T>(endpoint, {
       method: "PUT",
       body: JSON.stringify(body),
-    });
+    }, options);
   }
 
   /**
    * Sends a DELETE request.
    * @template T Expected response type.
    * @param endpoint - Resource path.
+   * @param body - Request body (optional).
+   * @param options - Per-request options (not retried unless `retry` is set).
    * @returns Promise with data of type `T`.
    */
-  async delete<T>(endpoint: string, body?: any): Promise<T> {
-    return this.request<T>(endpoint, { method: "DELETE", body: JSON.stringify(body) });
+  async delete<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>(endpoint, { method: "DELETE", body: JSON.stringify(body) }, options);
   }
 
   /**
@@ -135,19 +369,24 @@ class ApiClient {
    * @template T Expected response type.
    * @param endpoint - Resource path.
    * @param body - Request body (optional).
+   * @param options - Per-request options (not retried unless `retry` is set).
    * @returns Promise with data of type `T`.
    */
-  async patch<T>(endpoint: string, body?: any): Promise<T> {
+  async patch<T>(endpoint: string, body?: any, options?: RequestOptions): Promise<T> {
     return this.request<T>(endpoint, {
       method: "PATCH",
       body: JSON.stringify(body),
-    });
+    }, options);
   }
 }
 
 const url = import.meta.env.VITE_API_LOCAL_URL || import.meta.env.VITE_API_PROD_URL;
 
 const apiClient = new ApiClient(url);
+apiClient.use(correlationId());
+if (import.meta.env.DEV) apiClient.use(latencyLogger());
+// The 401 handler is registered by authService, which owns the session state
 
 export default apiClient;
-export type { ApiError };
\ No newline at end of file
+export * from "./apiErrors";
+export type { RetryPolicy, RequestOptions, ApiRequest, ApiResponse, Middleware };
\ No newline at end of file
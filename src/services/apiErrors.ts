@@ -0,0 +1,237 @@
+// src/services/apiErrors.ts
+
+/**
+ * Fields shared by every API error.
+ */
+interface ApiErrorBase {
+  /** Descriptive error message, ready to show to the user. */
+  message: string;
+  /** HTTP status code (0 if the server did not answer). */
+  status: number;
+  /** Wait (ms) requested by the server through `Retry-After`, if any. */
+  retryAfter?: number;
+}
+
+/**
+ * The request never got an answer:
+ * - `network`: the server could not be reached.
+ * - `timeout`: the server took longer than the request timeout.
+ * - `aborted`: the caller cancelled the request (e.g. the component unmounted).
+ */
+interface TransportError extends ApiErrorBase {
+  kind: "network" | "timeout" | "aborted";
+  status: 0;
+}
+
+/**
+ * The server answered with an error status:
+ * - `unauthorized` (401): no session or the session expired.
+ * - `forbidden` (403): the user may not do this.
+ * - `not-found` (404).
+ * - `conflict` (409): e.g. the user already reviewed the movie.
+ * - `server` (5xx).
+ * - `http`: any other error status (e.g. 429).
+ */
+interface HttpError extends ApiErrorBase {
+  kind: "unauthorized" | "forbidden" | "not-found" | "conflict" | "server" | "http";
+}
+
+/**
+ * The server rejected the submitted data (400 or 422).
+ */
+interface ValidationError extends ApiErrorBase {
+  kind: "validation";
+  /** Message for each invalid field, keyed by field name. Empty if the server gave none. */
+  fieldErrors: Record<string, string>;
+}
+
+/**
+ * Error thrown by `apiClient`. Narrow it by `kind`, or with the type guards below.
+ */
+type ApiError = TransportError | HttpError | ValidationError;
+
+/** Why a request failed. */
+type ApiErrorKind = ApiError["kind"];
+
+/** Kind of error for each HTTP status the app handles on its own. */
+const KIND_BY_STATUS: Record<number, HttpError["kind"] | "validation"> = {
+  400: "validation",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not-found",
+  409: "conflict",
+  422: "validation",
+};
+
+/**
+ * Extracts per-field messages from an error body. Understands the usual
+ * backend shapes:
+ * - `{ errors: [{ path | param | field, msg | message }] }` (express-validator)
+ * - `{ errors: { field: "message" } }` or `{ errors: { field: { message } } }` (mongoose)
+ * - `{ fieldErrors: { field: "message" } }`
+ *
+ * @param body - Parsed error body.
+ * @returns Message for each field (the first one, if a field has several).
+ */
+const parseFieldErrors = (body: unknown): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  if (!body || typeof body !== "object") return fieldErrors;
+
+  const { errors, fieldErrors: explicit } = body as { errors?: unknown; fieldErrors?: unknown };
+  const source = explicit ?? errors;
+
+  if (Array.isArray(source)) {
+    for (const item of source) {
+      const field = item?.path ?? item?.param ?? item?.field;
+      const message = item?.msg ?? item?.message;
+      if (typeof field === "string" && typeof message === "string" && !(field in fieldErrors)) {
+        fieldErrors[field] = message;
+      }
+    }
+  } else if (source && typeof source === "object") {
+    for (const [field, value] of Object.entries(source)) {
+      const message = typeof value === "string" ? value : Array.isArray(value) ? value[0] : value?.message;
+      if (typeof message === "string") fieldErrors[field] = message;
+    }
+  }
+  return fieldErrors;
+};
+
+/**
+ * Builds the error for an unsuccessful HTTP response.
+ *
+ * @param status - HTTP status code.
+ * @param body - Parsed error body, if any.
+ * @param retryAfter - Wait requested through `Retry-After`, in ms.
+ * @returns Typed error.
+ */
+const createHttpError = (status: number, body: unknown, retryAfter?: number): ApiError => {
+  const bodyMessage = (body as { message?: unknown } | null)?.message;
+  const message = typeof bodyMessage === "string" && bodyMessage ? bodyMessage : `Error ${status}`;
+  const kind = KIND_BY_STATUS[status] ?? (status >= 500 ? "server" : "http");
+
+  if (kind === "validation") return { kind, status, message, retryAfter, fieldErrors: parseFieldErrors(body) };
+  return { kind, status, message, retryAfter };
+};
+
+/**
+ * Builds the error for a request that got no answer.
+ *
+ * @param kind - Why there was no answer.
+ * @param message - Descriptive message.
+ * @returns Typed error.
+ */
+const createTransportError = (kind: TransportError["kind"], message: string): ApiError => ({ kind, status: 0, message });
+
+/**
+ * Builds the error returned when the caller cancels a request.
+ * @returns Error of kind `aborted`.
+ */
+const abortedError = (): ApiError => createTransportError("aborted", "Solicitud cancelada");
+
+/**
+ * Tells whether a caught value is an error thrown by `apiClient`.
+ * @param error - Caught value.
+ * @returns `true` for API errors.
+ */
+const isApiError = (error: unknown): error is ApiError =>
+  Boolean(error) && typeof error === "object" && typeof (error as ApiError).kind === "string" && typeof (error as ApiError).status === "number";
+
+/**
+ * Builds a type guard for the given error kinds.
+ * @param kinds - Kinds accepted by the guard.
+ * @returns Type guard.
+ */
+const isKind =
+  <K extends ApiErrorKind>(...kinds: K[]) =>
+  (error: unknown): error is Extract<ApiError, { kind: K }> =>
+    isApiError(error) && (kinds as ApiErrorKind[]).includes(error.kind);
+
+/** The caller cancelled the request; expected on unmount and not worth reporting. */
+const isAbortError = isKind("aborted");
+/** The server could not be reached or did not answer in time. */
+const isNetworkError = isKind("network", "timeout");
+const isTimeoutError = isKind("timeout");
+const isUnauthorizedError = isKind("unauthorized");
+const isForbiddenError = isKind("forbidden");
+const isNotFoundError = isKind("not-found");
+const isConflictError = isKind("conflict");
+const isValidationError = isKind("validation");
+const isServerError = isKind("server");
+
+/**
+ * Gets a message to show for any caught value.
+ *
+ * @param error - Caught value.
+ * @param fallback - Message used when the error carries none.
+ * @returns Message for the user.
+ */
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (isNetworkError(error)) return "No se pudo conectar con el servidor. Revisa tu conexión e inténtalo de nuevo.";
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === "string" && message ? message : fallback;
+};
+
+/**
+ * Splits the error of a form submission into messages shown next to their
+ * input and messages shown in the form's error list. Only validation errors
+ * carry per-field messages; messages of fields the form does not have go to
+ * the list, and any other error becomes a single list message.
+ *
+ * @param error - Caught value.
+ * @param knownFields - Fields of the form, named as the backend reports them.
+ * @param fallback - Message used when the error carries none.
+ * @returns Messages by field, and the rest.
+ */
+const splitFieldErrors = (
+  error: unknown,
+  knownFields: readonly string[],
+  fallback: string
+): { fieldErrors: Record<string, string>; messages: string[] } => {
+  if (!isValidationError(error) || Object.keys(error.fieldErrors).length === 0) {
+    return { fieldErrors: {}, messages: [getErrorMessage(error, fallback)] };
+  }
+
+  const fieldErrors: Record<string, string> = {};
+  const messages: string[] = [];
+  for (const [field, message] of Object.entries(error.fieldErrors)) {
+    if (knownFields.includes(field)) fieldErrors[field] = message;
+    else messages.push(message);
+  }
+  return { fieldErrors, messages };
+};
+
+/**
+ * Drops the message of a field, e.g. once the user edits it.
+ *
+ * @param fieldErrors - Messages by field.
+ * @param field - Field to clear.
+ * @returns Messages without that field (the same object if it had none).
+ */
+const omitFieldError = (fieldErrors: Record<string, string>, field: string): Record<string, string> => {
+  if (!(field in fieldErrors)) return fieldErrors;
+  const rest = { ...fieldErrors };
+  delete rest[field];
+  return rest;
+};
+
+export {
+  createHttpError,
+  createTransportError,
+  abortedError,
+  parseFieldErrors,
+  splitFieldErrors,
+  omitFieldError,
+  isApiError,
+  isAbortError,
+  isNetworkError,
+  isTimeoutError,
+  isUnauthorizedError,
+  isForbiddenError,
+  isNotFoundError,
+  isConflictError,
+  isValidationError,
+  isServerError,
+  getErrorMessage,
+};
+export type { ApiError, ApiErrorKind, TransportError, HttpError, ValidationError };
@@ -0,0 +1,73 @@
+// src/services/apiMiddleware.ts
+import { isUnauthorizedError } from "./apiErrors";
+import type { ApiRequest, Middleware } from "./apiClient";
+
+/** Header carrying the id that ties a request to the backend logs. */
+const CORRELATION_HEADER = "X-Correlation-Id";
+
+/**
+ * Requests that answer 401 for wrong credentials rather than for an expired
+ * session, so their errors are left to the page that made them.
+ */
+const CREDENTIAL_REQUESTS = ["POST /api/v1/users/login", "PATCH /api/v1/users/change-password", "DELETE /api/v1/users/me"];
+
+/**
+ * Generates a random id, even where `crypto.randomUUID` is unavailable
+ * (it only exists in secure contexts).
+ * @returns Unique id.
+ */
+const createId = (): string =>
+  globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Tags every request with an `X-Correlation-Id` header, so a failure seen in
+ * the browser can be found in the backend logs. Retries of a request share its id.
+ * @returns Middleware.
+ */
+const correlationId = (): Middleware => ({
+  onRequest(request) {
+    const id = request.headers.get(CORRELATION_HEADER) ?? createId();
+    request.headers.set(CORRELATION_HEADER, id);
+    request.meta.correlationId = id;
+  },
+});
+
+/**
+ * Logs the method, path, outcome and duration of every request, retries
+ * included. Meant for development only.
+ * @returns Middleware.
+ */
+const latencyLogger = (): Middleware => {
+  const elapsed = (meta: Record<string, unknown>) => Math.round(performance.now() - (meta.startedAt as number));
+  const tag = (meta: Record<string, unknown>) => (meta.correlationId ? ` [${meta.correlationId}]` : "");
+
+  return {
+    onRequest(request) {
+      request.meta.startedAt = performance.now();
+    },
+    onResponse(response, request) {
+      console.debug(`[api] ${request.method} ${request.endpoint} → ${response.status} (${elapsed(request.meta)} ms)${tag(request.meta)}`);
+    },
+    onError(error, request) {
+      const outcome = error.status || error.kind;
+      console.debug(`[api] ${request.method} ${request.endpoint} → ${outcome} (${elapsed(request.meta)} ms)${tag(request.meta)}`);
+    },
+  };
+};
+
+/**
+ * Reports every 401 that means the session is no longer valid (it expired or
+ * was closed elsewhere), so the auth state can be cleared in a single place.
+ * The error is still thrown to the caller.
+ * @param onUnauthorized - Called with the rejected request.
+ * @returns Middleware.
+ */
+const unauthorizedHandler = (onUnauthorized: (request: ApiRequest) => void): Middleware => ({
+  onError(error, request) {
+    if (!isUnauthorizedError(error)) return;
+    if (CREDENTIAL_REQUESTS.includes(`${request.method} ${request.endpoint}`)) return;
+    onUnauthorized(request);
+  },
+});
+
+export { correlationId, latencyLogger, unauthorizedHandler, CORRELATION_HEADER };
@@ -1,5 +1,10 @@
 // src/services/authService.ts
-import apiClient, { ApiError } from './apiClient';
+import apiClient, { getErrorMessage, isApiError, isUnauthorizedError } from './apiClient';
+import type { ApiError } from './apiClient';
+import queryCache from './queryCache';
+import { unauthorizedHandler } from './apiMiddleware';
+import sessionSync from './sessionSync';
+import type { SessionMessage } from './sessionSync';
 
 /**
  * Necessary credentials to log in.
@@ -8,6 +13,8 @@ import apiClient, { ApiError } from './apiClient';
 interface LoginCredentials {
   email: string;
   password: string;
+  /** Asks the backend for a long-lived session cookie instead of one that ends with the browser. */
+  rememberMe?: boolean;
 }
 
 /**
@@ -34,18 +41,149 @@ interface User {
   updatedAt?: string;
 }
 
+/**
+ * A session of the user, on this or another device.
+ * @interface
+ */
+interface ActiveSession {
+  id: string;
+  /** Device type or operating system (e.g. "Windows", "iPhone"). */
+  device: string;
+  browser: string;
+  /** Approximate location, from the IP address, if known. */
+  location?: string;
+  /** Last request made with this session (ISO date). */
+  lastActiveAt: string;
+  createdAt?: string;
+  /** Whether this is the session of this browser. */
+  current: boolean;
+}
+
+/** Where users land after logging in, unless they came from another page. */
+const DEFAULT_AFTER_LOGIN = '/dashboard';
+
+/**
+ * Builds the login URL that brings the user back to a page after logging in.
+ *
+ * @param {string} [next] - Path (with its query string) to return to.
+ * @returns {string} `/login?next=<path>`, or `/login` if there is nowhere to return.
+ */
+const buildLoginPath = (next?: string): string =>
+  next && next !== '/' && !next.startsWith('/login') ? `/login?next=${encodeURIComponent(next)}` : '/login';
+
+/**
+ * Validates the `next` parameter of the login page. Only paths inside the app
+ * are accepted, so the link cannot redirect to another site.
+ *
+ * @param {string | null} next - Value of the `next` parameter.
+ * @returns {string} Path to go to after logging in.
+ */
+const getSafeNextPath = (next: string | null): string =>
+  next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') && !next.startsWith('/login')
+    ? next
+    : DEFAULT_AFTER_LOGIN;
+
+/**
+ * Keeps the typed error of a failed request (so forms can tell validation
+ * errors from the rest), making sure it carries a message to show.
+ * @private
+ */
+const withFallbackMessage = (error: unknown, fallback: string): ApiError | Error =>
+  isApiError(error) ? { ...error, message: getErrorMessage(error, fallback) } : new Error(fallback);
+
 /**
  * Authentication service responsible for handling user login, logout, and session verification.
  * Provides methods to communicate with the backend using `apiClient`.
+ *
+ * It also keeps the user of the current session in memory, as confirmed by the
+ * backend, and announces every change with the `authChanged` window event.
+ * React code reads it through `useAuth()`. Logins, logouts, profile updates and
+ * account deletions are relayed to the other open tabs through `sessionSync`.
  * @class
  */
 class AuthService {
+  /** User of the current session, or `null` if nobody is signed in. */
+  private currentUser: User | null = null;
+
+  constructor() {
+    sessionSync.subscribe((message) => this.applyRemoteChange(message));
+  }
+
+  /**
+   * Gets the user of the current session.
+   * @returns {User | null} The signed-in user, or `null`.
+   */
+  getCurrentUser(): User | null {
+    return this.currentUser;
+  }
+
+  /**
+   * Replaces the user of the current session and notifies the app.
+   * @private
+   */
+  private setCurrentUser(user: User | null): void {
+    if (user === this.currentUser) return;
+    this.currentUser = user;
+    window.dispatchEvent(new Event('authChanged'));
+  }
+
   /**
-   * User login with email and password.
+   * Forgets the session locally, with the data cached for its user. The
+   * `authChanged` event it raises also lets `progressService` drop its local
+   * copy of the user's watch progress. Preferences stay, since they hold
+   * settings (captions, volume, inactivity timeout) rather than personal
+   * data, and apply again when the user returns.
+   * @private
+   */
+  private clearSession(): void {
+    queryCache.clear(); // Cached favorites and reviews belong to the user that left
+    this.setCurrentUser(null);
+  }
+
+  /**
+   * Closes the session locally after the backend rejected it (any 401 while
+   * signed in) and raises the `sessionExpired` window event.
+   * @returns {void}
+   */
+  expireSession(): void {
+    if (!this.currentUser) return; // Nobody was signed in; nothing expired
+    this.clearSession();
+    window.dispatchEvent(new Event('sessionExpired'));
+    sessionSync.publish({ type: 'expired' });
+  }
+
+  /**
+   * Applies a session change made in another tab, without announcing it again.
+   * @private
+   */
+  private applyRemoteChange(message: SessionMessage): void {
+    switch (message.type) {
+      case 'login':
+        if (message.user.id !== this.currentUser?.id) queryCache.clear();
+        this.setCurrentUser(message.user);
+        break;
+      case 'profile':
+        if (message.user.id === this.currentUser?.id) this.setCurrentUser(message.user);
+        break;
+      case 'logout':
+      case 'deleted':
+        if (this.currentUser) this.clearSession();
+        break;
+      case 'expired':
+        if (!this.currentUser) return;
+        this.clearSession();
+        window.dispatchEvent(new Event('sessionExpired'));
+        break;
+    }
+  }
+
+  /**
+   * User login with email and password. Loads the profile of the user, which
+   * becomes the user of the current session.
    * @async
    * @param {LoginCredentials} credentials - Object with the user's email and password.
    * @returns {Promise<LoginResponse>} Response with basic information of the authenticated user.
-   * @throws {Error} If an error occurs during the authentication process.
+   * @throws {ApiError} If an error occurs during the authentication process.
    */
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
     try {
@@ -53,36 +191,35 @@ class AuthService {
         '/api/v1/users/login',
         credentials,
       );
-      // Notify the rest of the app that the auth state has changed
-      try {
-        window.dispatchEvent(new Event('authChanged'));
-      } catch (e) {
-        /* don't block in non-DOM environments */
-      }
+      const user = await this.checkAuth();
+      if (user) sessionSync.publish({ type: 'login', user });
 
       return response;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.message || 'Error al iniciar sesión');
+      throw withFallbackMessage(error, 'Error al iniciar sesión');
     }
   }
 
   /**
-   * Logs out the current user.
+   * Logs out the current user. The session is closed locally even if the
+   * backend cannot be reached.
    * @async
    * @returns {Promise<void>} No return value.
    */
   async logout(): Promise<void> {
     try {
       await apiClient.post('/api/v1/users/logout', {});
-      if (localStorage.getItem("user")) { localStorage.removeItem("user"); } // Clean up localStorage
     } catch (error) {
       console.error('Error al cerrar sesión:', error);
+    } finally {
+      this.clearSession();
+      sessionSync.publish({ type: 'logout' });
     }
   }
 
   /**
-   * Verifies if the current user is authenticated.
+   * Verifies if the current user is authenticated, and updates the user of the
+   * current session with the answer.
    * @async
    * @returns {Promise<User | null>} The `User` object if the user is authenticated, or `null` if not.
    * @throws {ApiError} If an error occurs other than authentication (401).
@@ -90,10 +227,11 @@ class AuthService {
   async checkAuth(): Promise<User | null> {
     try {
       const response = await apiClient.get<{ user: User }>('/api/v1/users/me');
+      this.setCurrentUser(response.user);
       return response.user;
     } catch (error) {
-      const apiError = error as ApiError;
-      if (apiError.status === 401) {
+      if (isUnauthorizedError(error)) {
+        this.setCurrentUser(null);
         return null;
       }
       throw error;
@@ -111,7 +249,7 @@ class AuthService {
    * @param {string} userData.password - Password of the user.
    * @param {string} userData.confirmPassword - Password confirmation.
    * @returns {Promise<{ id: string }>} Object with the ID of the newly registered user.
-   * @throws {Error} If an error occurs while registering the user.
+   * @throws {ApiError} If an error occurs while registering the user.
    */
   async register(userData: {
     firstName: string;
@@ -128,8 +266,7 @@ class AuthService {
       );
       return response;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.message || 'Error al registrar usuario');
+      throw withFallbackMessage(error, 'Error al registrar usuario');
     }
   }
 
@@ -141,8 +278,7 @@ class AuthService {
       );
       return response;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.message || 'Error al solicitar recuperación de contraseña');
+      throw withFallbackMessage(error, 'Error al solicitar recuperación de contraseña');
     }
   }
 
@@ -156,7 +292,7 @@ class AuthService {
    * @param {Partial<User>} updates - Object with the fields to update.
    * Only the defined fields will be sent to the backend.
    * @returns {Promise<{ message: string }>} Success message from the server.
-   * @throws {Error} If an error occurs during the update or the user is not authenticated.
+   * @throws {ApiError} If an error occurs during the update or the user is not authenticated.
    */
   async updateUser(updates: Partial<User>): Promise<{ message: string }> {
     try {
@@ -164,10 +300,13 @@ class AuthService {
         '/api/v1/users/edit-me',
         updates
       );
+      if (this.currentUser) {
+        this.setCurrentUser({ ...this.currentUser, ...updates });
+        sessionSync.publish({ type: 'profile', user: this.currentUser });
+      }
       return response;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.message || 'Error al actualizar la información del usuario');
+      throw withFallbackMessage(error, 'Error al actualizar la información del usuario');
     }
   }
 
@@ -177,10 +316,11 @@ class AuthService {
         '/api/v1/users/me',
         { password }
       );
+      this.clearSession();
+      sessionSync.publish({ type: 'deleted' });
       return response;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.message || 'Error al eliminar la cuenta del usuario');
+      throw withFallbackMessage(error, 'Error al eliminar la cuenta del usuario');
     }
   }
 
@@ -192,8 +332,7 @@ class AuthService {
       );
       return response;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.message || 'Error al restablecer la contraseña');
+      throw withFallbackMessage(error, 'Error al restablecer la contraseña');
     }
   }
 
@@ -208,7 +347,7 @@ class AuthService {
  * @param {string} newPassword - New password to be set.
  * @param {string} confirmPassword - Confirmation of the new password (must match newPassword).
  * @returns {Promise<{ message: string }>} Success message from the server.
- * @throws {Error} If the current password is incorrect, the passwords do not match,
+ * @throws {ApiError} If the current password is incorrect, the passwords do not match,
  * do not meet security requirements, or the user is not authenticated.
  */
   async changePassword(
@@ -227,8 +366,53 @@ class AuthService {
       );
       return response;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.message || 'Error al cambiar la contraseña');
+      throw withFallbackMessage(error, 'Error al cambiar la contraseña');
+    }
+  }
+
+  /**
+   * Lists the open sessions of the authenticated user, on any device.
+   * @async
+   * @param {AbortSignal} [signal] - Cancels the request.
+   * @returns {Promise<ActiveSession[]>} Sessions, the current one included.
+   * @throws {ApiError} If the sessions cannot be loaded, the user is not authenticated, or the request is cancelled.
+   */
+  async getSessions(signal?: AbortSignal): Promise<ActiveSession[]> {
+    try {
+      const response = await apiClient.get<{ sessions: ActiveSession[] }>('/api/v1/users/me/sessions', { signal });
+      return response.sessions;
+    } catch (error) {
+      throw withFallbackMessage(error, 'Error al cargar las sesiones activas');
+    }
+  }
+
+  /**
+   * Closes one session of the authenticated user, e.g. on a lost device.
+   * To close the current session, use `logout`.
+   * @async
+   * @param {string} sessionId - ID of the session to close.
+   * @returns {Promise<{ message: string }>} Success message from the server.
+   * @throws {ApiError} If the session cannot be closed.
+   */
+  async revokeSession(sessionId: string): Promise<{ message: string }> {
+    try {
+      return await apiClient.delete<{ message: string }>(`/api/v1/users/me/sessions/${encodeURIComponent(sessionId)}`);
+    } catch (error) {
+      throw withFallbackMessage(error, 'Error al cerrar la sesión');
+    }
+  }
+
+  /**
+   * Closes every session of the authenticated user except the current one.
+   * @async
+   * @returns {Promise<{ message: string }>} Success message from the server.
+   * @throws {ApiError} If the sessions cannot be closed.
+   */
+  async revokeOtherSessions(): Promise<{ message: string }> {
+    try {
+      return await apiClient.delete<{ message: string }>('/api/v1/users/me/sessions');
+    } catch (error) {
+      throw withFallbackMessage(error, 'Error al cerrar las demás sesiones');
     }
   }
 
@@ -236,5 +420,8 @@ class AuthService {
 }
 
 const authService = new AuthService();
+apiClient.use(unauthorizedHandler(() => authService.expireSession()));
+
 export default authService;
-export type { User, LoginCredentials, LoginResponse };
\ No newline at end of file
+export { buildLoginPath, getSafeNextPath };
+export type { User, LoginCredentials, LoginResponse, ActiveSession };
\ No newline at end of file
@@ -0,0 +1,235 @@
+// src/services/catalogIndex.ts
+import type { SearchMovie } from './searchService';
+
+/**
+ * Range of characters `[start, end)` of the original text that matched a query.
+ * @interface
+ */
+interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Text lowercased and stripped of diacritics, with the position in the
+ * original text of every normalized character.
+ * @interface
+ */
+interface NormalizedText {
+  text: string;
+  offsets: number[];
+}
+
+/** A movie in the index, with its searchable fields already normalized. */
+interface IndexEntry {
+  movie: SearchMovie;
+  fields: Array<{ weight: number; words: string[]; text: string }>;
+}
+
+/** Relative weight of a match in each field. */
+const FIELD_WEIGHTS = { title: 3, author: 2, description: 1 };
+
+/** Combining marks left over after NFD decomposition ("í" → "i" + U+0301). */
+const DIACRITICS = /[\u0300-\u036f]/g;
+
+/**
+ * Lowercases a text and strips its diacritics, so "Película" and "pelicula" compare equal.
+ *
+ * @param {string} text - Text to normalize.
+ * @returns {string} Normalized text.
+ */
+const normalizeText = (text: string): string => text.normalize('NFD').replace(DIACRITICS, '').toLowerCase();
+
+/**
+ * Normalizes a text keeping track of where each character came from, so
+ * matches found in the normalized text can be highlighted in the original.
+ * @private
+ */
+const normalizeWithOffsets = (text: string): NormalizedText => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    for (const normalizedChar of normalizeText(char)) {
+      normalized += normalizedChar;
+      offsets.push(index);
+    }
+    index += char.length;
+  }
+  offsets.push(index);
+  return { text: normalized, offsets };
+};
+
+/**
+ * Splits a normalized text into words.
+ * @private
+ */
+const tokenize = (text: string): string[] => text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Number of typos tolerated in a word of the given length.
+ * @private
+ */
+const allowedTypos = (length: number): number => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+/**
+ * Levenshtein distance between two words, giving up (returning `max + 1`)
+ * as soon as it is known to exceed `max`.
+ * @private
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Scores how well a query word matches a word of a field: exact word, then
+ * prefix (the user is still typing), then a word with a few typos.
+ * @private
+ * @returns {number} Score between 0 (no match) and 1 (exact match).
+ */
+const scoreWord = (token: string, word: string): number => {
+  if (word === token) return 1;
+  if (word.startsWith(token)) return 0.8;
+
+  const max = allowedTypos(token.length);
+  if (max === 0) return 0;
+  const distance = Math.min(editDistance(token, word, max), editDistance(token, word.slice(0, token.length), max));
+  return distance <= max ? 0.6 - 0.1 * distance : 0;
+};
+
+/**
+ * Finds the parts of a text that match a query, tolerating accents and typos.
+ * Used to highlight matches in search results, wherever they come from.
+ *
+ * @param {string} text - Text to search in.
+ * @param {string} query - Text typed by the user.
+ * @returns {MatchRange[]} Sorted, non-overlapping ranges of the original text.
+ */
+const findMatchRanges = (text: string, query: string): MatchRange[] => {
+  const tokens = tokenize(normalizeText(query));
+  if (!text || tokens.length === 0) return [];
+
+  const { text: normalized, offsets } = normalizeWithOffsets(text);
+  const ranges: MatchRange[] = [];
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+
+  for (const token of tokens) {
+    let from = normalized.indexOf(token);
+    if (from !== -1) {
+      while (from !== -1) {
+        ranges.push({ start: from, end: from + token.length });
+        from = normalized.indexOf(token, from + token.length);
+      }
+      continue;
+    }
+
+    // No literal match: highlight the words that match with typos
+    for (const match of normalized.matchAll(wordPattern)) {
+      if (scoreWord(token, match[0]) > 0) {
+        ranges.push({ start: match.index, end: match.index + Math.min(match[0].length, token.length) });
+      }
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged.map(({ start, end }) => ({ start: offsets[start], end: offsets[end] }));
+};
+
+/**
+ * In-memory fuzzy index over the movies the app has already loaded.
+ * Pages that fetch movies add them here, so the search still returns useful
+ * results when the backend search endpoint is down or slow.
+ * @class
+ */
+class CatalogIndex {
+  private entries = new Map<string, IndexEntry>();
+
+  /**
+   * Adds movies to the index (or refreshes them, if already indexed).
+   * @param {SearchMovie[]} movies - Movies to index.
+   * @returns {void}
+   */
+  add(movies: SearchMovie[]): void {
+    for (const movie of movies) {
+      if (!movie?._id) continue;
+      const fields = [
+        { weight: FIELD_WEIGHTS.title, value: movie.title },
+        { weight: FIELD_WEIGHTS.author, value: movie.author },
+        { weight: FIELD_WEIGHTS.description, value: movie.description },
+      ].map(({ weight, value }) => {
+        const text = normalizeText(value ?? '');
+        return { weight, text, words: tokenize(text) };
+      });
+      this.entries.set(movie._id, { movie, fields });
+    }
+  }
+
+  /**
+   * Finds the indexed movies that match a query. Every word of the query must
+   * match some field; matches in the title weigh more than in the author or
+   * the description.
+   * @param {string} query - Text typed by the user.
+   * @param {number} [limit=10] - Maximum number of results.
+   * @returns {SearchMovie[]} Matching movies, best first.
+   */
+  search(query: string, limit = 10): SearchMovie[] {
+    const normalizedQuery = normalizeText(query).trim();
+    const tokens = tokenize(normalizedQuery);
+    if (tokens.length === 0) return [];
+
+    const scored: Array<{ movie: SearchMovie; score: number }> = [];
+    for (const { movie, fields } of this.entries.values()) {
+      let score = 0;
+      let matchesAll = true;
+
+      for (const token of tokens) {
+        let best = 0;
+        for (const field of fields) {
+          let fieldScore = field.text.includes(token) ? 0.7 : 0;
+          for (const word of field.words) fieldScore = Math.max(fieldScore, scoreWord(token, word));
+          best = Math.max(best, fieldScore * field.weight);
+        }
+        if (best === 0) {
+          matchesAll = false;
+          break;
+        }
+        score += best;
+      }
+
+      if (!matchesAll) continue;
+      // The whole phrase in the title is the strongest signal
+      if (fields[0].text.includes(normalizedQuery)) score += FIELD_WEIGHTS.title;
+      scored.push({ movie, score });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.movie.title.localeCompare(b.movie.title, 'es'))
+      .slice(0, limit)
+      .map(({ movie }) => movie);
+  }
+}
+
+const catalogIndex = new CatalogIndex();
+export default catalogIndex;
+export { findMatchRanges };
+export type { MatchRange };
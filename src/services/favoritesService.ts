@@ -0,0 +1,70 @@
+// src/services/favoritesService.ts
+import apiClient from './apiClient';
+import queryCache from './queryCache';
+
+/**
+ * Favorite entry linking a user and a movie.
+ * @interface
+ */
+interface Favorite {
+  _id: string;
+  userId: string | number;
+  movieId: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Favorites service. The list of each user is cached and invalidated after
+ * every change, so the player, the favorites page and the search filters
+ * share a single request.
+ * @class
+ */
+class FavoritesService {
+  /**
+   * Gets the favorites of a user.
+   * @async
+   * @param {string | number} userId - User identifier.
+   * @param {AbortSignal} [signal] - Cancels the read.
+   * @returns {Promise<Favorite[]>} Favorite entries.
+   * @throws {ApiError} If the request fails or is cancelled.
+   */
+  getFavorites(userId: string | number, signal?: AbortSignal): Promise<Favorite[]> {
+    return queryCache.fetch(
+      `favorites:${userId}`,
+      async (requestSignal) => (await apiClient.get<Favorite[]>(`/api/v1/favorites/user/${userId}`, { signal: requestSignal })) || [],
+      { signal }
+    );
+  }
+
+  /**
+   * Adds a movie to the favorites of a user.
+   * @async
+   * @param {string | number} userId - User identifier.
+   * @param {string} movieId - Movie identifier.
+   * @returns {Promise<Favorite>} Created entry.
+   * @throws {ApiError} If the request fails.
+   */
+  async add(userId: string | number, movieId: string): Promise<Favorite> {
+    const favorite = await apiClient.post<Favorite>('/api/v1/favorites', { userId, movieId });
+    queryCache.invalidate(`favorites:${userId}`);
+    return favorite;
+  }
+
+  /**
+   * Removes an entry from the favorites of a user.
+   * @async
+   * @param {string | number} userId - User identifier.
+   * @param {string} favoriteId - Favorite entry identifier.
+   * @returns {Promise<void>}
+   * @throws {ApiError} If the request fails.
+   */
+  async remove(userId: string | number, favoriteId: string): Promise<void> {
+    await apiClient.delete(`/api/v1/favorites/movie/${favoriteId}`);
+    queryCache.invalidate(`favorites:${userId}`);
+  }
+}
+
+const favoritesService = new FavoritesService();
+export default favoritesService;
+export type { Favorite };
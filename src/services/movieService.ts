@@ -0,0 +1,203 @@
+// src/services/movieService.ts
+import apiClient, { abortedError, isAbortError } from './apiClient';
+import queryCache from './queryCache';
+import type { ApiError } from './apiClient';
+
+/**
+ * Movie as returned by the movies endpoints.
+ * @interface
+ */
+interface Movie {
+  _id: string;
+  pexelsId?: number;
+  title: string;
+  imageUrl: string;
+  videoUrl: string;
+  /** Duration in seconds. */
+  duration?: number;
+  author?: string;
+  description?: string;
+}
+
+/**
+ * Result of fetching several movies at once.
+ * @interface
+ */
+interface MovieBatch<T> {
+  /** Movies that loaded, by id. */
+  movies: Map<string, T>;
+  /** Ids that could not be loaded (missing or failed). */
+  failed: string[];
+}
+
+/** Maximum number of ids sent in one batch request. */
+const BATCH_SIZE = 50;
+
+/** Parallel single-movie requests when the batch endpoint is not available. */
+const FALLBACK_CONCURRENCY = 6;
+
+/** Movie details rarely change; keep them for a while. */
+const MOVIE_STALE_TIME = 5 * 60 * 1000;
+
+/** The popular ranking changes with every view; refresh it more often. */
+const POPULAR_STALE_TIME = 60 * 1000;
+
+/**
+ * Movie catalog service. Reads go through the shared query cache.
+ * @class
+ */
+class MovieService {
+  /** Set once the backend answers that it has no batch endpoint, to stop trying it. */
+  private batchUnsupported = false;
+
+  /** Movies being refreshed in the background, so repeated reads do not request them again. */
+  private refreshing = new Set<string>();
+
+  /**
+   * Gets the details of a movie.
+   * @async
+   * @template T Shape the caller expects.
+   * @param {string} movieId - Movie identifier.
+   * @param {AbortSignal} [signal] - Cancels the read.
+   * @returns {Promise<T>} Movie details.
+   * @throws {ApiError} If the request fails or is cancelled.
+   */
+  getMovie<T extends Movie = Movie>(movieId: string, signal?: AbortSignal): Promise<T> {
+    return queryCache.fetch(
+      `movie:${movieId}`,
+      (requestSignal) => apiClient.get<T>(`/api/v1/movies/${movieId}`, { signal: requestSignal }),
+      { staleTime: MOVIE_STALE_TIME, signal }
+    );
+  }
+
+  /**
+   * Gets many movies at once: cached movies are reused and the rest are
+   * requested in batches of BATCH_SIZE. If the batch endpoint is missing or a
+   * batch fails, those movies are requested one by one, a few at a time.
+   * A movie that cannot be loaded does not fail the others. Cached movies
+   * older than MOVIE_STALE_TIME are served as they are and refreshed in the
+   * background, so the next read gets the new data.
+   * @async
+   * @template T Shape the caller expects.
+   * @param {string[]} movieIds - Movie identifiers.
+   * @param {AbortSignal} [signal] - Cancels the remaining requests.
+   * @returns {Promise<MovieBatch<T>>} Loaded movies and failed ids.
+   * @throws {ApiError} Only if cancelled.
+   */
+  async getMovies<T extends Movie = Movie>(movieIds: string[], signal?: AbortSignal): Promise<MovieBatch<T>> {
+    const movies = new Map<string, T>();
+    const missing: string[] = [];
+    const stale: string[] = [];
+    for (const id of new Set(movieIds)) {
+      const cached = queryCache.peek<T>(`movie:${id}`);
+      if (!cached) {
+        missing.push(id);
+        continue;
+      }
+      movies.set(id, cached);
+      if (queryCache.isStale(`movie:${id}`, MOVIE_STALE_TIME) && !this.refreshing.has(id)) stale.push(id);
+    }
+
+    if (stale.length > 0) {
+      stale.forEach((id) => this.refreshing.add(id));
+      this.loadInBatches(stale)
+        .catch((error) => console.warn('No se pudieron actualizar las películas:', error))
+        .finally(() => stale.forEach((id) => this.refreshing.delete(id)));
+    }
+
+    const loaded = await this.loadInBatches<T>(missing, signal);
+    loaded.forEach((movie) => movies.set(movie._id, movie));
+
+    return { movies, failed: movieIds.filter((id) => !movies.has(id)) };
+  }
+
+  /**
+   * Loads movies in chunks of BATCH_SIZE.
+   * @private
+   */
+  private async loadInBatches<T extends Movie>(movieIds: string[], signal?: AbortSignal): Promise<T[]> {
+    const loaded: T[] = [];
+    for (let start = 0; start < movieIds.length; start += BATCH_SIZE) {
+      loaded.push(...(await this.fetchBatch<T>(movieIds.slice(start, start + BATCH_SIZE), signal)));
+    }
+    return loaded;
+  }
+
+  /**
+   * Loads one chunk of movies, through the batch endpoint if possible, and
+   * caches each of them.
+   * @private
+   */
+  private async fetchBatch<T extends Movie>(movieIds: string[], signal?: AbortSignal): Promise<T[]> {
+    if (!this.batchUnsupported) {
+      try {
+        // A batch read has no side effects, so it can be retried like a GET
+        const response = await apiClient.post<T[] | { movies?: T[] }>('/api/v1/movies/batch', { ids: movieIds }, { retry: true, signal });
+        const movies = (Array.isArray(response) ? response : response?.movies) ?? [];
+        movies.forEach((movie) => queryCache.set(`movie:${movie._id}`, movie));
+        return movies;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        const { status } = error as ApiError;
+        if (status === 404 || status === 405) this.batchUnsupported = true;
+        else console.warn('Falló la carga por lotes, se reintenta película a película:', error);
+      }
+    }
+
+    const loaded: T[] = [];
+    for (let start = 0; start < movieIds.length; start += FALLBACK_CONCURRENCY) {
+      const results = await Promise.allSettled(
+        movieIds.slice(start, start + FALLBACK_CONCURRENCY).map((id) => this.getMovie<T>(id, signal))
+      );
+      if (signal?.aborted) throw abortedError();
+      results.forEach((result) => {
+        if (result.status === 'fulfilled' && result.value) loaded.push(result.value);
+      });
+    }
+    return loaded;
+  }
+
+  /**
+   * Gets the most popular movies. Every movie in the list is also cached on its
+   * own, so opening it afterwards needs no request.
+   * @async
+   * @template T Shape the caller expects.
+   * @param {number} limit - Number of movies.
+   * @param {AbortSignal} [signal] - Cancels the read.
+   * @returns {Promise<T[]>} Movies, most popular first.
+   * @throws {ApiError} If the request fails or is cancelled.
+   */
+  getPopular<T extends Movie = Movie>(limit: number, signal?: AbortSignal): Promise<T[]> {
+    return queryCache.fetch(
+      `movies:popular:${limit}`,
+      async (requestSignal) => {
+        const movies = (await apiClient.get<T[]>(`/api/v1/movies/popular/${limit}`, { signal: requestSignal })) || [];
+        movies.forEach((movie) => {
+          if (queryCache.peek(`movie:${movie._id}`) === undefined) queryCache.set(`movie:${movie._id}`, movie);
+        });
+        return movies;
+      },
+      { staleTime: POPULAR_STALE_TIME, signal }
+    );
+  }
+
+  /**
+   * Gets the movies recommended after watching a movie.
+   * @async
+   * @param {string} movieId - Movie identifier.
+   * @param {AbortSignal} [signal] - Cancels the read.
+   * @returns {Promise<Movie[]>} Recommended movies.
+   * @throws {ApiError} If the request fails or is cancelled.
+   */
+  getRecommendations(movieId: string, signal?: AbortSignal): Promise<Movie[]> {
+    return queryCache.fetch(
+      `movie:${movieId}:recommendations`,
+      async (requestSignal) => (await apiClient.get<Movie[]>(`/api/v1/movies/${movieId}/recommendations`, { signal: requestSignal })) || [],
+      { signal }
+    );
+  }
+}
+
+const movieService = new MovieService();
+export default movieService;
+export type { Movie, MovieBatch };
@@ -0,0 +1,145 @@
+// src/services/preferencesService.ts
+import authService from './authService';
+
+/**
+ * Font edge styles supported by the caption renderer.
+ */
+type CaptionEdgeStyle = 'none' | 'outline' | 'shadow' | 'raised' | 'depressed';
+
+/**
+ * Visual preferences for subtitles.
+ * @interface
+ */
+interface CaptionStyle {
+  /** Font scale relative to the default caption size (1 = 100%). */
+  fontScale: number;
+  /** Text color as a CSS hex color. */
+  textColor: string;
+  /** Opacity of the black box behind the text, from 0 to 1. */
+  backgroundOpacity: number;
+  /** Edge effect applied to the text. */
+  edgeStyle: CaptionEdgeStyle;
+  /** Vertical position of the captions, as a percentage from the bottom of the video (0-80). */
+  position: number;
+}
+
+/**
+ * Audio and speed settings of the video player.
+ * @interface
+ */
+interface PlaybackSettings {
+  /** Volume from 0 to 1. */
+  volume: number;
+  /** Whether the audio is muted (the volume is kept for unmuting). */
+  muted: boolean;
+  /** Playback speed (1 = normal). */
+  rate: number;
+}
+
+/**
+ * All preferences persisted per user.
+ * @interface
+ */
+interface Preferences {
+  captions: CaptionStyle;
+  playback: PlaybackSettings;
+  /** Whether the next movie starts automatically (after a countdown) when one ends. */
+  autoplayNext: boolean;
+  /** Minutes of inactivity before the session is closed (0 = never). */
+  idleTimeout: number;
+}
+
+/** Values used when the user has not customized a preference. */
+const DEFAULT_PREFERENCES: Preferences = {
+  captions: {
+    fontScale: 1,
+    textColor: '#ffffff',
+    backgroundOpacity: 0.75,
+    edgeStyle: 'none',
+    position: 8,
+  },
+  playback: {
+    volume: 1,
+    muted: false,
+    rate: 1,
+  },
+  autoplayNext: true,
+  idleTimeout: 30,
+};
+
+/** Custom event dispatched on `window` whenever a preference changes in this tab. */
+const PREFERENCES_CHANGED_EVENT = 'preferencesChanged';
+
+const STORAGE_PREFIX = 'lumix:preferences:';
+
+/**
+ * Preferences service that stores user settings in `localStorage`.
+ *
+ * Each user gets their own entry, keyed by the id of the user of the current
+ * session (`authService.getCurrentUser()`, restored from the backend by
+ * `checkAuth` on load), so several people sharing a browser keep separate
+ * settings. Anonymous visitors share a `guest` entry.
+ * @class
+ */
+class PreferencesService {
+  /**
+   * Returns the storage key of the current user.
+   * @private
+   * @returns {string} `localStorage` key.
+   */
+  private storageKey(): string {
+    const userId = authService.getCurrentUser()?.id ?? 'guest';
+    return `${STORAGE_PREFIX}${userId}`;
+  }
+
+  /**
+   * Reads every stored preference of the current user.
+   * @private
+   * @returns {Partial<Preferences>} Stored values (may be empty).
+   */
+  private read(): Partial<Preferences> {
+    try {
+      const raw = localStorage.getItem(this.storageKey());
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Gets a preference of the current user, merged over its default value.
+   * @template K Preference name.
+   * @param {K} key - Preference name.
+   * @returns {Preferences[K]} Stored value or the default one.
+   */
+  get<K extends keyof Preferences>(key: K): Preferences[K] {
+    const stored = this.read()[key];
+    const fallback = DEFAULT_PREFERENCES[key];
+    if (stored === undefined || stored === null) return fallback;
+    if (typeof fallback === 'object' && typeof stored === 'object') {
+      return { ...fallback, ...stored };
+    }
+    return typeof stored === typeof fallback ? stored : fallback;
+  }
+
+  /**
+   * Saves a preference of the current user and notifies listeners in this tab.
+   * @template K Preference name.
+   * @param {K} key - Preference name.
+   * @param {Preferences[K]} value - New value.
+   * @returns {void}
+   */
+  set<K extends keyof Preferences>(key: K, value: Preferences[K]): void {
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify({ ...this.read(), [key]: value }));
+    } catch (error) {
+      console.warn('No se pudo guardar la preferencia:', error);
+    }
+    window.dispatchEvent(new CustomEvent(PREFERENCES_CHANGED_EVENT, { detail: { key } }));
+  }
+}
+
+const preferencesService = new PreferencesService();
+export default preferencesService;
+export { DEFAULT_PREFERENCES, PREFERENCES_CHANGED_EVENT };
+export type { CaptionEdgeStyle, CaptionStyle, PlaybackSettings, Preferences };
@@ -0,0 +1,226 @@
+// src/services/progressService.ts
+import apiClient from './apiClient';
+import authService from './authService';
+
+/**
+ * Playback position saved for a movie.
+ * @interface
+ */
+interface WatchProgress {
+  movieId: string;
+  /** Last playback position in seconds. */
+  position: number;
+  /** Total duration of the video in seconds. */
+  duration: number;
+  /** ISO timestamp of the last update. */
+  updatedAt: string;
+}
+
+/** Positions below this value (seconds) are not worth resuming. */
+const MIN_RESUME_POSITION = 10;
+
+/** Progress closer than this (seconds) to the end counts as finished. */
+const FINISHED_MARGIN = 30;
+
+const STORAGE_PREFIX = 'lumix:progress:';
+
+/**
+ * Returns the id of the signed-in user, if any.
+ * @returns {string | null} User id or `null` for anonymous visitors.
+ */
+const getCurrentUserId = (): string | null => authService.getCurrentUser()?.id ?? null;
+
+/**
+ * Tells whether a saved position is far enough from both ends of the video to offer resuming.
+ *
+ * @param {WatchProgress} progress - Saved progress.
+ * @returns {boolean} `true` if the movie is partially watched.
+ */
+const isResumable = (progress: WatchProgress): boolean =>
+  progress.position >= MIN_RESUME_POSITION &&
+  (!progress.duration || progress.position < progress.duration - FINISHED_MARGIN);
+
+/**
+ * Picks the most recently updated of two progress entries.
+ * @param {WatchProgress | null} a - First entry.
+ * @param {WatchProgress | null} b - Second entry.
+ * @returns {WatchProgress | null} The newest entry, or `null` if both are missing.
+ */
+const newest = (a: WatchProgress | null, b: WatchProgress | null): WatchProgress | null => {
+  if (!a || !b) return a ?? b;
+  return Date.parse(b.updatedAt) > Date.parse(a.updatedAt) ? b : a;
+};
+
+/**
+ * Watch-progress service that remembers where each user left every movie.
+ *
+ * Progress is stored through the progress API and mirrored in `localStorage`
+ * (per user), which is used as a fallback when the API is unreachable and as
+ * the only store for anonymous visitors. The mirror of a user is dropped when
+ * their session ends, so their watch history does not stay on a shared computer.
+ * @class
+ */
+class ProgressService {
+  /** User the local copy belongs to, to drop it when they leave. */
+  private userId: string | null = null;
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    window.addEventListener('authChanged', () => {
+      const userId = getCurrentUserId();
+      if (this.userId && this.userId !== userId) this.clearLocal(this.userId);
+      this.userId = userId;
+    });
+  }
+
+  /**
+   * Returns the `localStorage` key of the given user.
+   * @private
+   */
+  private storageKey(userId: string | null): string {
+    return `${STORAGE_PREFIX}${userId ?? 'guest'}`;
+  }
+
+  /**
+   * Reads the locally stored progress of a user.
+   * @private
+   */
+  private readLocal(userId: string | null): Record<string, WatchProgress> {
+    try {
+      const raw = localStorage.getItem(this.storageKey(userId));
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Replaces the locally stored progress of a user.
+   * @private
+   */
+  private writeLocal(userId: string | null, entries: Record<string, WatchProgress>): void {
+    try {
+      localStorage.setItem(this.storageKey(userId), JSON.stringify(entries));
+    } catch (error) {
+      console.warn('No se pudo guardar el progreso localmente:', error);
+    }
+  }
+
+  /**
+   * Gets the saved progress of a movie for the current user.
+   * Uses the most recent value between the API and the local copy.
+   * @async
+   * @param {string} movieId - Movie identifier.
+   * @returns {Promise<WatchProgress | null>} Saved progress, or `null` if none exists.
+   */
+  async get(movieId: string): Promise<WatchProgress | null> {
+    const userId = getCurrentUserId();
+    const local = this.readLocal(userId)[movieId] ?? null;
+    if (!userId) return local;
+
+    try {
+      const remote = await apiClient.get<WatchProgress | null>(`/api/v1/progress/user/${userId}/${movieId}`);
+      return newest(remote, local);
+    } catch (error) {
+      console.warn('Progreso no disponible en el servidor, usando copia local:', error);
+      return local;
+    }
+  }
+
+  /**
+   * Lists every saved progress entry of the current user, most recent first.
+   * @async
+   * @returns {Promise<WatchProgress[]>} Progress entries.
+   */
+  async list(): Promise<WatchProgress[]> {
+    const userId = getCurrentUserId();
+    const merged = { ...this.readLocal(userId) };
+
+    if (userId) {
+      try {
+        const remote = await apiClient.get<WatchProgress[]>(`/api/v1/progress/user/${userId}`);
+        for (const entry of remote || []) {
+          merged[entry.movieId] = newest(merged[entry.movieId] ?? null, entry)!;
+        }
+      } catch (error) {
+        console.warn('Progreso no disponible en el servidor, usando copia local:', error);
+      }
+    }
+
+    return Object.values(merged).sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+  }
+
+  /**
+   * Saves the playback position of a movie for the current user.
+   * Finished movies are removed instead, so they no longer offer resuming.
+   * @async
+   * @param {string} movieId - Movie identifier.
+   * @param {number} position - Current position in seconds.
+   * @param {number} duration - Total duration in seconds.
+   * @returns {Promise<void>}
+   */
+  async save(movieId: string, position: number, duration: number): Promise<void> {
+    if (!movieId || !isFinite(position)) return;
+
+    const entry: WatchProgress = {
+      movieId,
+      position: Math.floor(position),
+      duration: isFinite(duration) ? Math.floor(duration) : 0,
+      updatedAt: new Date().toISOString(),
+    };
+    if (entry.duration && entry.position >= entry.duration - FINISHED_MARGIN) {
+      return this.remove(movieId);
+    }
+
+    const userId = getCurrentUserId();
+    this.writeLocal(userId, { ...this.readLocal(userId), [movieId]: entry });
+    if (!userId) return;
+
+    try {
+      // Saving a position is an upsert, so repeating it is harmless
+      await apiClient.put('/api/v1/progress', { userId, ...entry }, { retry: true });
+    } catch (error) {
+      console.warn('No se pudo guardar el progreso en el servidor:', error);
+    }
+  }
+
+  /**
+   * Forgets the saved progress of a movie for the current user.
+   * @async
+   * @param {string} movieId - Movie identifier.
+   * @returns {Promise<void>}
+   */
+  async remove(movieId: string): Promise<void> {
+    const userId = getCurrentUserId();
+    const entries = this.readLocal(userId);
+    if (movieId in entries) {
+      delete entries[movieId];
+      this.writeLocal(userId, entries);
+    }
+    if (!userId) return;
+
+    try {
+      await apiClient.delete(`/api/v1/progress/user/${userId}/${movieId}`, undefined, { retry: true });
+    } catch (error) {
+      console.warn('No se pudo eliminar el progreso en el servidor:', error);
+    }
+  }
+
+  /**
+   * Forgets the local copy of a user's progress. The progress saved through
+   * the API is kept.
+   * @private
+   */
+  private clearLocal(userId: string): void {
+    try {
+      localStorage.removeItem(this.storageKey(userId));
+    } catch (error) {
+      console.warn('No se pudo borrar el progreso local:', error);
+    }
+  }
+}
+
+const progressService = new ProgressService();
+export default progressService;
+export { isResumable, MIN_RESUME_POSITION };
+export type { WatchProgress };
@@ -0,0 +1,201 @@
+// src/services/queryCache.ts
+import { abortedError } from './apiErrors';
+
+/**
+ * Cached result of a query.
+ * @interface
+ */
+interface CacheEntry<T> {
+  /** Last data received, if any. */
+  data?: T;
+  /** Time (ms since epoch) `data` was received. */
+  updatedAt: number;
+  /** Request in flight for this key, shared by every caller. */
+  promise?: Promise<T>;
+  /** Aborts the request in flight. */
+  controller?: AbortController;
+  /** Callers waiting for the request in flight that can still cancel. */
+  waiting: number;
+  /** Some caller that cannot cancel needs the request, so it must not be aborted. */
+  pinned: boolean;
+}
+
+/**
+ * Options of a cached query.
+ * @interface
+ */
+interface QueryOptions {
+  /** Time (ms) the data is considered fresh and served without asking the backend. */
+  staleTime?: number;
+  /**
+   * Cancels this caller's read. The shared request is only aborted once every
+   * caller waiting for it has cancelled.
+   */
+  signal?: AbortSignal;
+}
+
+/** Default freshness of cached data. */
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+/**
+ * Keyed cache for GET requests, shared by the whole app.
+ *
+ * - Fresh data is served from memory.
+ * - Stale data is served immediately while it is refreshed in the background
+ *   (stale-while-revalidate), so the next read gets the new data.
+ * - Concurrent requests for the same key share a single request, which is
+ *   aborted when every caller waiting for it has cancelled.
+ * - Mutations invalidate the keys they affect, forcing the next read to hit the backend.
+ *
+ * Keys follow a `resource:id` pattern (e.g. `movie:123`, `favorites:42`), so
+ * related entries can be invalidated by prefix.
+ * @class
+ */
+class QueryCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  /**
+   * Reads a query through the cache.
+   * @async
+   * @template T Type of the data.
+   * @param {string} key - Cache key.
+   * @param {(signal: AbortSignal) => Promise<T>} fetcher - Loads the data from the backend.
+   * @param {QueryOptions} [options={}] - Freshness and cancellation options.
+   * @returns {Promise<T>} Cached or freshly loaded data.
+   * @throws {ApiError} If there is no cached data and the request fails, or the read is cancelled.
+   */
+  fetch<T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>, options: QueryOptions = {}): Promise<T> {
+    const { staleTime = DEFAULT_STALE_TIME, signal } = options;
+    if (signal?.aborted) return Promise.reject(abortedError());
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (entry && entry.data !== undefined) {
+      if (Date.now() - entry.updatedAt >= staleTime && !entry.promise) {
+        // Background refresh; a failure keeps the stale data
+        this.load(key, fetcher).catch((error) => console.warn(`No se pudo actualizar ${key}:`, error));
+        entry.pinned = true; // Nobody waits for a background refresh; let it finish
+      }
+      return Promise.resolve(entry.data);
+    }
+
+    const promise = entry?.promise ?? this.load(key, fetcher);
+    return this.waitFor(this.entries.get(key) as CacheEntry<T>, promise, signal);
+  }
+
+  /**
+   * Registers a caller waiting for the request in flight of an entry.
+   * Callers without a signal pin the request so it is never aborted.
+   * @private
+   */
+  private waitFor<T>(entry: CacheEntry<T>, promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      entry.pinned = true;
+      return promise;
+    }
+
+    entry.waiting += 1;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        entry.waiting -= 1;
+        if (entry.waiting === 0 && !entry.pinned && entry.promise === promise) entry.controller?.abort();
+        reject(abortedError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(
+        (data) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(data);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Starts a request and stores its result, unless the key was invalidated meanwhile.
+   * @private
+   */
+  private load<T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const entry = (this.entries.get(key) as CacheEntry<T> | undefined) ?? { updatedAt: 0, waiting: 0, pinned: false };
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal).then(
+      (data) => {
+        if (this.entries.get(key) === entry) {
+          entry.data = data;
+          entry.updatedAt = Date.now();
+          entry.promise = undefined;
+        }
+        return data;
+      },
+      (error) => {
+        if (this.entries.get(key) === entry) entry.promise = undefined;
+        throw error;
+      }
+    );
+    entry.promise = promise;
+    entry.controller = controller;
+    entry.waiting = 0;
+    entry.pinned = false;
+    this.entries.set(key, entry);
+    return promise;
+  }
+
+  /**
+   * Gets the cached data of a key without requesting it.
+   * @template T Type of the data.
+   * @param {string} key - Cache key.
+   * @returns {T | undefined} Cached data, fresh or stale.
+   */
+  peek<T>(key: string): T | undefined {
+    return (this.entries.get(key) as CacheEntry<T> | undefined)?.data;
+  }
+
+  /**
+   * Tells whether the cached data of a key is missing or older than `staleTime`.
+   * @param {string} key - Cache key.
+   * @param {number} [staleTime=DEFAULT_STALE_TIME] - Time (ms) the data is considered fresh.
+   * @returns {boolean} `true` if the key should be read again from the backend.
+   */
+  isStale(key: string, staleTime = DEFAULT_STALE_TIME): boolean {
+    const entry = this.entries.get(key);
+    return entry?.data === undefined || Date.now() - entry.updatedAt >= staleTime;
+  }
+
+  /**
+   * Stores data received by other means (e.g. a movie that came inside a list).
+   * @template T Type of the data.
+   * @param {string} key - Cache key.
+   * @param {T} data - Data to store.
+   * @returns {void}
+   */
+  set<T>(key: string, data: T): void {
+    this.entries.set(key, { data, updatedAt: Date.now(), waiting: 0, pinned: false });
+  }
+
+  /**
+   * Drops the cached data of a key, or of every key starting with `prefix:`.
+   * Requests already in flight for those keys no longer update the cache.
+   * @param {string} keyOrPrefix - Exact key or key prefix (without the trailing colon).
+   * @returns {void}
+   */
+  invalidate(keyOrPrefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key === keyOrPrefix || key.startsWith(`${keyOrPrefix}:`)) this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Drops all cached data (e.g. on logout).
+   * @returns {void}
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+const queryCache = new QueryCache();
+export default queryCache;
+export type { QueryOptions };
@@ -0,0 +1,26 @@
+// src/services/ratingService.ts
+
+/**
+ * Aggregated review ratings of a movie.
+ * @interface
+ */
+interface RatingSummary {
+  /** Average star rating (1-5), or `null` if the movie has no reviews. */
+  average: number | null;
+  /** Number of reviews. */
+  count: number;
+}
+
+/**
+ * Aggregates a list of reviews into an average rating and a review count.
+ *
+ * @param {Array<{ rating: number }>} reviews - Reviews of a movie.
+ * @returns {RatingSummary} Average and count.
+ */
+const summarizeRatings = (reviews: Array<{ rating: number }>): RatingSummary => ({
+  average: reviews.length > 0 ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length : null,
+  count: reviews.length,
+});
+
+export { summarizeRatings };
+export type { RatingSummary };
@@ -0,0 +1,95 @@
+// src/services/reviewService.ts
+import apiClient from './apiClient';
+import queryCache from './queryCache';
+
+/**
+ * Review of a movie, as returned by the reviews endpoints.
+ * @interface
+ */
+interface Review {
+  _id: string;
+  movieId: string;
+  /** Star rating, 1-5. */
+  rating: number;
+  comment: string;
+}
+
+/**
+ * Data sent to create or update a review.
+ * @interface
+ */
+interface ReviewPayload {
+  userId: string;
+  movieId: string;
+  comment: string;
+  rating: number;
+}
+
+/**
+ * Reviews service. The reviews of each movie are cached and invalidated after
+ * every change, so the movie page and the ratings used by the search agree.
+ * @class
+ */
+class ReviewService {
+  /**
+   * Gets the reviews of a movie.
+   * @async
+   * @template T Shape the caller expects.
+   * @param {string} movieId - Movie identifier.
+   * @param {AbortSignal} [signal] - Cancels the read.
+   * @returns {Promise<T[]>} Reviews, newest first.
+   * @throws {ApiError} If the request fails or is cancelled.
+   */
+  getForMovie<T extends Review = Review>(movieId: string, signal?: AbortSignal): Promise<T[]> {
+    return queryCache.fetch(
+      `reviews:${movieId}`,
+      async (requestSignal) => (await apiClient.get<T[]>(`/api/v1/reviews/movie/${movieId}/`, { signal: requestSignal })) || [],
+      { signal }
+    );
+  }
+
+  /**
+   * Creates a review.
+   * @async
+   * @template T Shape the caller expects.
+   * @param {ReviewPayload} payload - Review data.
+   * @returns {Promise<T>} Created review.
+   * @throws {ApiError} If the request fails (409 if the user already reviewed the movie).
+   */
+  async create<T extends Review = Review>(payload: ReviewPayload): Promise<T> {
+    const review = await apiClient.post<T>('/api/v1/reviews', payload);
+    queryCache.invalidate(`reviews:${payload.movieId}`);
+    return review;
+  }
+
+  /**
+   * Updates the review of a user.
+   * @async
+   * @template T Shape the caller expects.
+   * @param {ReviewPayload} payload - Review data.
+   * @returns {Promise<T>} Updated review.
+   * @throws {ApiError} If the request fails.
+   */
+  async update<T extends Review = Review>(payload: ReviewPayload): Promise<T> {
+    const review = await apiClient.put<T>('/api/v1/reviews', payload);
+    queryCache.invalidate(`reviews:${payload.movieId}`);
+    return review;
+  }
+
+  /**
+   * Deletes a review.
+   * @async
+   * @param {string} reviewId - Review identifier.
+   * @param {string} movieId - Movie the review belongs to.
+   * @returns {Promise<void>}
+   * @throws {ApiError} If the request fails.
+   */
+  async remove(reviewId: string, movieId: string): Promise<void> {
+    await apiClient.delete(`/api/v1/reviews/${reviewId}`);
+    queryCache.invalidate(`reviews:${movieId}`);
+  }
+}
+
+const reviewService = new ReviewService();
+export default reviewService;
+export type { Review, ReviewPayload };
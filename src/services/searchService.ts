@@ -0,0 +1,253 @@
+// src/services/searchService.ts
+import apiClient from './apiClient';
+import queryCache from './queryCache';
+
+/**
+ * Movie as returned by the search endpoint.
+ * @interface
+ */
+interface SearchMovie {
+  _id: string;
+  title: string;
+  imageUrl: string;
+  videoUrl: string;
+  author?: string;
+  duration?: number;
+  description?: string;
+}
+
+/**
+ * One page of search results.
+ * @interface
+ */
+interface SearchResults {
+  results: SearchMovie[];
+  /** Total number of matches across all pages. */
+  total: number;
+  /** Current page, starting at 1. */
+  page: number;
+  totalPages: number;
+  /** Authors of all matches (before filtering), for the author filter. */
+  authors: string[];
+  /** `false` if the backend ignored the filters and ordering (older, unpaginated backends). */
+  filtersSupported: boolean;
+}
+
+/** Duration buckets offered by the search filters. */
+type DurationRange = 'short' | 'medium' | 'long';
+
+/** Orderings offered on the search page. `relevance` keeps the order of the search endpoint. */
+type SearchSort = 'relevance' | 'popularity' | 'rating' | 'duration';
+
+/**
+ * Filters and ordering applied to the search results.
+ * @interface
+ */
+interface SearchFilters {
+  duration?: DurationRange;
+  /** Exact author name, as listed in `SearchResults.authors`. */
+  author?: string;
+  /** Minimum average review rating (1-5). */
+  minRating?: number;
+  /** Keep only movies in the current user's favorites. */
+  favoritesOnly?: boolean;
+  sort?: SearchSort;
+}
+
+/**
+ * Raw response of the search endpoint: a page object or, on older backends, a plain array.
+ */
+type SearchResponse =
+  | SearchMovie[]
+  | { results?: SearchMovie[]; total?: number; page?: number; totalPages?: number; authors?: string[] };
+
+/** Number of results per page on the search page. */
+const SEARCH_PAGE_SIZE = 12;
+
+/** Number of live suggestions shown in the Navbar. */
+const SUGGESTION_LIMIT = 6;
+
+/** Queries shorter than this (after trimming) do not trigger live suggestions. */
+const MIN_SUGGEST_LENGTH = 2;
+
+/** Duration buckets, in seconds (`max` is exclusive). */
+const DURATION_RANGES: Record<DurationRange, { label: string; min: number; max: number }> = {
+  short: { label: 'Menos de 5 min', min: 0, max: 5 * 60 },
+  medium: { label: 'De 5 a 20 min', min: 5 * 60, max: 20 * 60 },
+  long: { label: 'Más de 20 min', min: 20 * 60, max: Infinity },
+};
+
+const SORT_OPTIONS: SearchSort[] = ['relevance', 'popularity', 'rating', 'duration'];
+
+/**
+ * Lists the distinct authors of some movies, alphabetically. Used when the
+ * backend does not report the authors of all matches.
+ *
+ * @param {SearchMovie[]} movies - Movies to read the authors from.
+ * @returns {string[]} Author names.
+ */
+const collectAuthors = (movies: SearchMovie[]): string[] =>
+  [...new Set(movies.map((movie) => movie.author?.trim()).filter((author): author is string => Boolean(author)))]
+    .sort((a, b) => a.localeCompare(b, 'es'));
+
+/**
+ * Reads the search filters from the page URL. Unknown or malformed values are ignored.
+ *
+ * @param {URLSearchParams} params - Query params of the search page.
+ * @returns {SearchFilters} Filters encoded in the URL.
+ */
+const parseSearchFilters = (params: URLSearchParams): SearchFilters => {
+  const filters: SearchFilters = {};
+
+  const duration = params.get('duration');
+  if (duration && duration in DURATION_RANGES) filters.duration = duration as DurationRange;
+
+  const author = params.get('author')?.trim();
+  if (author) filters.author = author;
+
+  const minRating = Number(params.get('minRating'));
+  if (minRating >= 1 && minRating <= 5) filters.minRating = Math.floor(minRating);
+
+  if (params.get('favorites') === '1') filters.favoritesOnly = true;
+
+  const sort = params.get('sort') as SearchSort | null;
+  if (sort && sort !== 'relevance' && SORT_OPTIONS.includes(sort)) filters.sort = sort;
+
+  return filters;
+};
+
+/**
+ * Encodes a search as page URL params. Defaults (page 1, relevance, no filters) are left out.
+ *
+ * @param {string} query - Search text.
+ * @param {SearchFilters} [filters={}] - Filters and ordering.
+ * @param {number} [page=1] - Page, starting at 1.
+ * @returns {URLSearchParams} Params for `/search`.
+ */
+const toSearchParams = (query: string, filters: SearchFilters = {}, page = 1): URLSearchParams => {
+  const params = new URLSearchParams({ q: query });
+  if (filters.sort && filters.sort !== 'relevance') params.set('sort', filters.sort);
+  if (filters.duration) params.set('duration', filters.duration);
+  if (filters.author) params.set('author', filters.author);
+  if (filters.minRating) params.set('minRating', String(filters.minRating));
+  if (filters.favoritesOnly) params.set('favorites', '1');
+  if (page > 1) params.set('page', String(page));
+  return params;
+};
+
+/**
+ * Tells whether any filter or non-default ordering is active.
+ *
+ * @param {SearchFilters} filters - Filters to check.
+ * @returns {boolean} `true` if the results differ from a plain search.
+ */
+const hasActiveFilters = (filters: SearchFilters): boolean =>
+  Boolean(filters.duration || filters.author || filters.minRating || filters.favoritesOnly || (filters.sort && filters.sort !== 'relevance'));
+
+/**
+ * Movie search service.
+ * @class
+ */
+class SearchService {
+  /**
+   * Builds the search endpoint URL. Filters and ordering are applied by the
+   * backend, so pagination stays on the server.
+   * @private
+   */
+  private endpoint(query: string, page: number, limit: number, filters: SearchFilters = {}): string {
+    const params = new URLSearchParams({ q: query.trim(), page: String(page), limit: String(limit) });
+    if (filters.duration) {
+      const { min, max } = DURATION_RANGES[filters.duration];
+      params.set('minDuration', String(min));
+      if (Number.isFinite(max)) params.set('maxDuration', String(max));
+    }
+    if (filters.author) params.set('author', filters.author);
+    if (filters.minRating) params.set('minRating', String(filters.minRating));
+    if (filters.favoritesOnly) params.set('favorites', 'true'); // Favorites of the user of the session cookie
+    if (filters.sort && filters.sort !== 'relevance') params.set('sort', filters.sort);
+    return `/api/v1/movies/search?${params.toString()}`;
+  }
+
+  /**
+   * Fetches one page of matches from the search endpoint.
+   * @private
+   */
+  private async fetchPage(
+    query: string,
+    page: number,
+    pageSize: number,
+    filters: SearchFilters = {},
+    signal?: AbortSignal
+  ): Promise<SearchResults> {
+    const endpoint = this.endpoint(query, page, pageSize, filters);
+    const response = await queryCache.fetch(
+      `search:${endpoint}`,
+      (requestSignal) => apiClient.get<SearchResponse>(endpoint, { signal: requestSignal }),
+      { signal }
+    );
+    if (Array.isArray(response)) {
+      // Unpaginated backend, which also ignores the filters: paginate on the client
+      const start = (page - 1) * pageSize;
+      return {
+        results: response.slice(start, start + pageSize),
+        total: response.length,
+        page,
+        totalPages: Math.ceil(response.length / pageSize),
+        authors: collectAuthors(response),
+        filtersSupported: false,
+      };
+    }
+
+    const results = response?.results ?? [];
+    const total = response?.total ?? results.length;
+    return {
+      results,
+      total,
+      page: response?.page ?? page,
+      totalPages: response?.totalPages ?? Math.ceil(total / pageSize),
+      authors: response?.authors ?? collectAuthors(results),
+      filtersSupported: true,
+    };
+  }
+
+  /**
+   * Searches movies by title, author or description, optionally filtered and sorted.
+   * @async
+   * @param {string} query - Text to search for.
+   * @param {number} [page=1] - Page to fetch, starting at 1.
+   * @param {number} [pageSize=SEARCH_PAGE_SIZE] - Results per page.
+   * @param {SearchFilters} [filters={}] - Filters and ordering.
+   * @param {AbortSignal} [signal] - Cancels the search.
+   * @returns {Promise<SearchResults>} Requested page of results.
+   * @throws {ApiError} If the request fails or is cancelled.
+   */
+  search(
+    query: string,
+    page = 1,
+    pageSize = SEARCH_PAGE_SIZE,
+    filters: SearchFilters = {},
+    signal?: AbortSignal
+  ): Promise<SearchResults> {
+    if (!query.trim()) return Promise.resolve({ results: [], total: 0, page: 1, totalPages: 0, authors: [], filtersSupported: true });
+    return this.fetchPage(query, page, pageSize, filters, signal);
+  }
+
+  /**
+   * Gets a few quick matches for the search-as-you-type dropdown.
+   * @async
+   * @param {string} query - Text typed so far.
+   * @param {AbortSignal} [signal] - Cancels the request (e.g. when the user keeps typing).
+   * @returns {Promise<SearchMovie[]>} Up to SUGGESTION_LIMIT movies (empty for short queries).
+   * @throws {ApiError} If the request fails or is cancelled.
+   */
+  async suggest(query: string, signal?: AbortSignal): Promise<SearchMovie[]> {
+    if (query.trim().length < MIN_SUGGEST_LENGTH) return [];
+    const { results } = await this.fetchPage(query, 1, SUGGESTION_LIMIT, {}, signal);
+    return results.slice(0, SUGGESTION_LIMIT);
+  }
+}
+
+const searchService = new SearchService();
+export default searchService;
+export { SEARCH_PAGE_SIZE, SUGGESTION_LIMIT, MIN_SUGGEST_LENGTH, DURATION_RANGES, parseSearchFilters, toSearchParams, hasActiveFilters };
+export type { SearchMovie, SearchResults, SearchFilters, SearchSort, DurationRange };
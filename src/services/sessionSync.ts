@@ -0,0 +1,99 @@
+// src/services/sessionSync.ts
+import type { User } from './authService';
+
+/**
+ * Session change announced to the other tabs.
+ * - `login`: a user signed in.
+ * - `logout`: the user signed out.
+ * - `profile`: the user edited their profile.
+ * - `deleted`: the user deleted their account.
+ * - `expired`: the backend rejected the session.
+ * - `activity`: the user is active (or watching a video) in that tab.
+ */
+type SessionMessage =
+  | { type: 'login'; user: User }
+  | { type: 'logout' }
+  | { type: 'profile'; user: User }
+  | { type: 'deleted' }
+  | { type: 'expired' }
+  | { type: 'activity' };
+
+/** Name of the channel shared by every tab of the app. */
+const CHANNEL_NAME = 'lumix:session';
+
+/** `localStorage` key used to relay messages where BroadcastChannel is unavailable. */
+const STORAGE_KEY = 'lumix:session-sync';
+
+/**
+ * Relays session changes between the open tabs of the app, so all of them
+ * show the same user. Uses a BroadcastChannel, or `storage` events in
+ * browsers without one. Messages never reach the tab that sent them.
+ * @class
+ */
+class SessionSync {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<(message: SessionMessage) => void>();
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SessionMessage>) => this.emit(event.data);
+      return;
+    }
+
+    window.addEventListener('storage', (event) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+      try {
+        this.emit(JSON.parse(event.newValue).message);
+      } catch {
+        /* malformed entry: ignore it */
+      }
+    });
+  }
+
+  /**
+   * Announces a session change to the other tabs.
+   * @param {SessionMessage} message - Change to announce.
+   * @returns {void}
+   */
+  publish(message: SessionMessage): void {
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+        return;
+      }
+      // The timestamp makes every write a change, so repeated messages still fire `storage`
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+      localStorage.removeItem(STORAGE_KEY); // Do not leave the user's data behind
+    } catch (error) {
+      console.warn('No se pudo sincronizar la sesión con otras pestañas:', error);
+    }
+  }
+
+  /**
+   * Listens to the session changes announced by other tabs.
+   * @param {(message: SessionMessage) => void} listener - Called with every message.
+   * @returns {() => void} Function that stops listening.
+   */
+  subscribe(listener: (message: SessionMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hands a received message to every listener.
+   * @private
+   */
+  private emit(message: SessionMessage): void {
+    if (!message?.type) return;
+    for (const listener of this.listeners) listener(message);
+  }
+}
+
+const sessionSync = new SessionSync();
+export default sessionSync;
+export type { SessionMessage };
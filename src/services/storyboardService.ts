@@ -0,0 +1,124 @@
+// src/services/storyboardService.ts
+import apiClient from './apiClient';
+import type { ApiError } from './apiClient';
+import { parseSubtitles } from './subtitleService';
+
+/**
+ * Region of a sprite image holding one preview thumbnail.
+ * @interface
+ */
+interface StoryboardFrame {
+  /** URL of the sprite image. */
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Storyboard returned by the backend, in one of two formats:
+ * - `sprite`: a single image with thumbnails laid out in a grid, one every `interval` seconds.
+ * - `vtt`: a WebVTT thumbnails track whose cue texts are `image.jpg#xywh=x,y,w,h`.
+ */
+type StoryboardResponse =
+  | { type: 'sprite'; url: string; interval: number; columns: number; rows?: number; width: number; height: number }
+  | { type: 'vtt'; vtt: string; baseUrl?: string };
+
+/**
+ * Normalized storyboard used by the seek bar.
+ */
+type Storyboard =
+  | { kind: 'grid'; url: string; interval: number; columns: number; count: number; width: number; height: number }
+  | { kind: 'cues'; frames: Array<{ start: number; end: number; frame: StoryboardFrame }> };
+
+const XYWH_REGEX = /^(.*)#xywh=(\d+),(\d+),(\d+),(\d+)$/;
+
+/**
+ * Parses a WebVTT thumbnails track. Cues without a valid `#xywh` fragment are skipped.
+ *
+ * @param {string} vtt - WebVTT content.
+ * @param {string} [baseUrl] - URL relative image paths are resolved against.
+ * @returns {Storyboard} Cue-based storyboard.
+ */
+const parseThumbnailTrack = (vtt: string, baseUrl?: string): Storyboard => {
+  const frames = parseSubtitles(vtt).flatMap(({ start, end, text }) => {
+    const match = text.trim().match(XYWH_REGEX);
+    if (!match) return [];
+    const [, image, x, y, width, height] = match;
+    const url = baseUrl ? new URL(image, baseUrl).href : image;
+    return [{ start, end, frame: { url, x: +x, y: +y, width: +width, height: +height } }];
+  });
+  return { kind: 'cues', frames };
+};
+
+/**
+ * Finds the thumbnail to preview for a given time.
+ *
+ * @param {Storyboard} storyboard - Storyboard of the video.
+ * @param {number} time - Time in seconds.
+ * @returns {StoryboardFrame | null} Matching frame, or `null` if there is none.
+ */
+const getStoryboardFrame = (storyboard: Storyboard, time: number): StoryboardFrame | null => {
+  if (storyboard.kind === 'cues') {
+    return storyboard.frames.find((f) => time >= f.start && time < f.end)?.frame ?? null;
+  }
+
+  const index = Math.min(Math.floor(time / storyboard.interval), storyboard.count - 1);
+  if (index < 0) return null;
+  return {
+    url: storyboard.url,
+    x: (index % storyboard.columns) * storyboard.width,
+    y: Math.floor(index / storyboard.columns) * storyboard.height,
+    width: storyboard.width,
+    height: storyboard.height,
+  };
+};
+
+/**
+ * Service that loads the preview thumbnails (storyboards) of the movies.
+ * Storyboards are optional: movies without one simply get no thumbnail preview.
+ * @class
+ */
+class StoryboardService {
+  /**
+   * Gets the storyboard of a movie.
+   * @async
+   * @param {string} movieId - Movie identifier.
+   * @param {AbortSignal} [signal] - Cancels the request.
+   * @returns {Promise<Storyboard | null>} Normalized storyboard, or `null` if the movie has none or the request was cancelled.
+   */
+  async get(movieId: string, signal?: AbortSignal): Promise<Storyboard | null> {
+    try {
+      const response = await apiClient.get<StoryboardResponse | null>(`/api/v1/movies/${movieId}/storyboard`, { signal });
+      if (!response) return null;
+
+      if (response.type === 'vtt') {
+        const storyboard = parseThumbnailTrack(response.vtt, response.baseUrl);
+        return storyboard.kind === 'cues' && storyboard.frames.length ? storyboard : null;
+      }
+
+      if (response.type === 'sprite' && response.interval > 0 && response.columns > 0) {
+        return {
+          kind: 'grid',
+          url: response.url,
+          interval: response.interval,
+          columns: response.columns,
+          count: response.rows ? response.rows * response.columns : Infinity,
+          width: response.width,
+          height: response.height,
+        };
+      }
+      return null;
+    } catch (error) {
+      const { status, kind } = error as ApiError;
+      if (status !== 404 && kind !== 'aborted') console.warn('No se pudo cargar la vista previa de miniaturas:', error);
+      return null;
+    }
+  }
+}
+
+const storyboardService = new StoryboardService();
+export default storyboardService;
+export { getStoryboardFrame, parseThumbnailTrack };
+export type { Storyboard, StoryboardFrame };
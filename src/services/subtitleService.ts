@@ -0,0 +1,324 @@
+// src/services/subtitleService.ts
+import apiClient from './apiClient';
+
+/**
+ * A single timed subtitle cue.
+ * @interface
+ */
+interface SubtitleCue {
+  /** Start time in seconds. */
+  start: number;
+  /** End time in seconds (always greater than `start`). */
+  end: number;
+  /** Cue text. May contain line breaks but never blank lines. */
+  text: string;
+}
+
+/**
+ * Formats recognized by the subtitle parser.
+ * - `vtt`: WebVTT document (starts with `WEBVTT`).
+ * - `srt`: SubRip document (numbered blocks with `-->` timings).
+ * - `json`: JSON array of `{ start, end, text }` cues.
+ * - `text`: Plain text without timing information (legacy backend payload).
+ */
+type SubtitleFormat = 'vtt' | 'srt' | 'json' | 'text';
+
+/**
+ * Response returned by `/api/v1/sb/:movieId/subtitles/:lang`.
+ * @interface
+ */
+interface SubtitleResponse {
+  subtitle: string | unknown[];
+  language: string;
+}
+
+/**
+ * A subtitle language available for a movie.
+ * @interface
+ */
+interface SubtitleLanguage {
+  /** BCP 47 language code, used as the track `srclang` (e.g. `es`, `pt-BR`). */
+  code: string;
+  /** Human readable name shown in the subtitle menu. */
+  label: string;
+}
+
+/**
+ * Response returned by `/api/v1/sb/:movieId/subtitles`.
+ * Entries may be bare language codes or objects with an optional label.
+ * @interface
+ */
+interface SubtitleLanguagesResponse {
+  languages: Array<string | { code: string; label?: string }>;
+}
+
+/** Languages assumed when the backend cannot list the available subtitles. */
+const DEFAULT_SUBTITLE_LANGUAGES = ['es', 'en'];
+
+/** Duration (seconds) of the single cue generated for untimed plain-text subtitles. */
+const PLAIN_TEXT_CUE_DURATION = 10;
+
+/** Matches `hh:mm:ss.mmm`, `mm:ss.mmm` and the SRT variant with a comma separator. */
+const TIMESTAMP_RE = /^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/;
+
+/**
+ * Parses a subtitle timestamp into seconds.
+ *
+ * @param {string} value - Timestamp such as `00:01:02.500` or `01:02,500`.
+ * @returns {number | null} Time in seconds, or `null` if the value is not a valid timestamp.
+ */
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP_RE.exec(value.trim());
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  const minutes = Number(m);
+  const seconds = Number(s);
+  if (seconds >= 60 || (h !== undefined && minutes >= 60)) return null;
+  const millis = ms ? Number(ms.padEnd(3, '0')) : 0;
+  return Number(h ?? 0) * 3600 + minutes * 60 + seconds + millis / 1000;
+};
+
+/**
+ * Formats seconds as a WebVTT timestamp (`hh:mm:ss.mmm`).
+ *
+ * @param {number} seconds - Time in seconds.
+ * @returns {string} WebVTT timestamp.
+ */
+const formatTimestamp = (seconds: number): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+};
+
+/**
+ * Guesses the format of a raw subtitle payload.
+ *
+ * @param {string} raw - Raw subtitle text as returned by the backend.
+ * @returns {SubtitleFormat} Detected format.
+ */
+const detectFormat = (raw: string): SubtitleFormat => {
+  const content = raw.replace(/^\uFEFF/, '').trimStart();
+  if (/^WEBVTT(?:[ \t]|$)/.test(content.split(/\r?\n/, 1)[0])) return 'vtt';
+  if (content.startsWith('[')) return 'json';
+  if (content.includes('-->')) return 'srt';
+  return 'text';
+};
+
+/**
+ * Parses the timed blocks shared by WebVTT and SRT documents.
+ * Header, `NOTE`, `STYLE` and `REGION` blocks are skipped, as are blocks
+ * whose timing line cannot be parsed.
+ *
+ * @param {string} raw - Document contents.
+ * @returns {SubtitleCue[]} Cues in document order (not yet normalized).
+ */
+const parseTimedBlocks = (raw: string): SubtitleCue[] => {
+  const blocks = raw.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim() !== '');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1 || /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const [startPart, endPart = ''] = lines[timingIndex].split('-->');
+    // Anything after the end timestamp is a WebVTT cue setting (position, align…)
+    const start = parseTimestamp(startPart);
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0] ?? '');
+    if (start === null || end === null) continue;
+
+    cues.push({ start, end, text: lines.slice(timingIndex + 1).join('\n') });
+  }
+
+  return cues;
+};
+
+/**
+ * Parses a JSON array of cues. `start` and `end` may be numbers (seconds)
+ * or timestamp strings; entries with any other shape are discarded.
+ *
+ * @param {unknown} data - Parsed JSON value or JSON string.
+ * @returns {SubtitleCue[]} Cues (not yet normalized).
+ * @throws {Error} If the value is not an array.
+ */
+const parseJsonCues = (data: unknown): SubtitleCue[] => {
+  const value = typeof data === 'string' ? JSON.parse(data) : data;
+  if (!Array.isArray(value)) throw new Error('Formato de subtítulos JSON no válido');
+
+  const toSeconds = (t: unknown): number | null => {
+    if (typeof t === 'number') return t;
+    if (typeof t === 'string') return parseTimestamp(t) ?? (t.trim() !== '' && isFinite(Number(t)) ? Number(t) : null);
+    return null;
+  };
+
+  return value.flatMap((item) => {
+    if (!item || typeof item !== 'object') return [];
+    const { start, end, text } = item as Record<string, unknown>;
+    const s = toSeconds(start);
+    const e = toSeconds(end);
+    if (s === null || e === null || typeof text !== 'string') return [];
+    return [{ start: s, end: e, text }];
+  });
+};
+
+/**
+ * Validates and normalizes cues so they can be serialized to WebVTT:
+ * - drops cues with non-finite or negative times, `end <= start`, or empty text;
+ * - trims text, removes blank lines and `-->` sequences (both invalid in cue payloads);
+ * - sorts by start time, then end time.
+ *
+ * @param {SubtitleCue[]} cues - Cues to normalize.
+ * @returns {SubtitleCue[]} A new, sorted array of valid cues.
+ */
+const normalizeCues = (cues: SubtitleCue[]): SubtitleCue[] =>
+  cues
+    .map((cue) => ({
+      start: cue.start,
+      end: cue.end,
+      text: cue.text
+        .replace(/\r\n?/g, '\n')
+        .split('\n')
+        .map((line) => line.trim().replace(/-->/g, '→'))
+        .filter(Boolean)
+        .join('\n'),
+    }))
+    .filter((cue) => isFinite(cue.start) && isFinite(cue.end) && cue.start >= 0 && cue.end > cue.start && cue.text !== '')
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+/**
+ * Parses a subtitle payload in any supported format into normalized cues.
+ *
+ * Plain text without timings is kept for backwards compatibility with older
+ * backend payloads and becomes a single cue at the start of the video.
+ *
+ * @param {string | unknown[]} raw - Subtitle payload (document text or cue array).
+ * @returns {SubtitleCue[]} Normalized cues, possibly empty.
+ * @throws {Error} If the payload looks like JSON but cannot be parsed.
+ */
+const parseSubtitles = (raw: string | unknown[]): SubtitleCue[] => {
+  if (Array.isArray(raw)) return normalizeCues(parseJsonCues(raw));
+
+  switch (detectFormat(raw)) {
+    case 'json':
+      return normalizeCues(parseJsonCues(raw));
+    case 'vtt':
+    case 'srt':
+      return normalizeCues(parseTimedBlocks(raw));
+    default:
+      return normalizeCues([{ start: 0, end: PLAIN_TEXT_CUE_DURATION, text: raw }]);
+  }
+};
+
+/**
+ * Serializes cues into a WebVTT document.
+ *
+ * @param {SubtitleCue[]} cues - Normalized cues.
+ * @returns {string} WebVTT document.
+ */
+const toVtt = (cues: SubtitleCue[]): string =>
+  ['WEBVTT', ...cues.map((cue) => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}`)].join('\n\n') + '\n';
+
+/**
+ * Converts the text of a WebVTT cue into plain text for custom rendering:
+ * removes markup tags (`<i>`, `<v Speaker>`, `<00:01.000>`…) and decodes the
+ * character references allowed by the spec.
+ *
+ * @param {string} text - Raw cue text as exposed by `VTTCue.text`.
+ * @returns {string} Plain text, keeping line breaks.
+ */
+const stripCueMarkup = (text: string): string =>
+  text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, '\u00A0')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Returns the display name of a language in that same language
+ * (e.g. `es` → "Español", `pt` → "Português").
+ *
+ * @param {string} code - BCP 47 language code.
+ * @returns {string} Capitalized language name, or the upper-cased code if it is unknown.
+ */
+const getLanguageLabel = (code: string): string => {
+  try {
+    const name = new Intl.DisplayNames([code], { type: 'language' }).of(code);
+    if (name && name.toLowerCase() !== code.toLowerCase()) {
+      return name.charAt(0).toLocaleUpperCase(code) + name.slice(1);
+    }
+  } catch {
+    /* invalid code or Intl.DisplayNames not supported */
+  }
+  return code.toUpperCase();
+};
+
+/**
+ * Service that downloads subtitles from the backend and turns them into
+ * WebVTT tracks usable by `<track>` elements.
+ * @class
+ */
+class SubtitleService {
+  /**
+   * Lists the subtitle languages available for a movie.
+   * Falls back to the historical Spanish/English pair when the backend
+   * cannot be queried, so older deployments keep working.
+   * @async
+   * @param {string} movieId - Movie identifier.
+   * @returns {Promise<SubtitleLanguage[]>} Available languages without duplicates, in backend order.
+   */
+  async getLanguages(movieId: string): Promise<SubtitleLanguage[]> {
+    let entries: SubtitleLanguagesResponse['languages'];
+    try {
+      const response = await apiClient.get<SubtitleLanguagesResponse>(`/api/v1/sb/${movieId}/subtitles`);
+      entries = Array.isArray(response?.languages) ? response.languages : [];
+    } catch (error) {
+      console.warn('No se pudo obtener la lista de subtítulos:', error);
+      entries = DEFAULT_SUBTITLE_LANGUAGES;
+    }
+
+    const languages = new Map<string, SubtitleLanguage>();
+    for (const entry of entries) {
+      const code = (typeof entry === 'string' ? entry : entry?.code)?.trim();
+      if (!code || languages.has(code.toLowerCase())) continue;
+      const label = typeof entry === 'string' ? undefined : entry.label;
+      languages.set(code.toLowerCase(), { code, label: label || getLanguageLabel(code) });
+    }
+    return [...languages.values()];
+  }
+
+  /**
+   * Fetches and parses the subtitles of a movie in a given language.
+   * @async
+   * @param {string} movieId - Movie identifier.
+   * @param {string} lang - Language code (e.g. `es`, `en`).
+   * @returns {Promise<SubtitleCue[]>} Normalized cues (empty when no subtitle text is available).
+   * @throws {ApiError | Error} If the request fails or the payload is malformed.
+   */
+  async getCues(movieId: string, lang: string): Promise<SubtitleCue[]> {
+    const response = await apiClient.get<SubtitleResponse>(`/api/v1/sb/${movieId}/subtitles/${lang}`);
+    if (!response.subtitle || (typeof response.subtitle === 'string' && !response.subtitle.trim())) return [];
+    return parseSubtitles(response.subtitle);
+  }
+
+  /**
+   * Creates an object URL for a WebVTT track built from the given cues.
+   * The caller is responsible for releasing it with `URL.revokeObjectURL`.
+   *
+   * @param {SubtitleCue[]} cues - Normalized cues.
+   * @returns {string} Blob URL pointing to a `text/vtt` document.
+   */
+  createTrackUrl(cues: SubtitleCue[]): string {
+    return URL.createObjectURL(new Blob([toVtt(cues)], { type: 'text/vtt' }));
+  }
+}
+
+const subtitleService = new SubtitleService();
+export default subtitleService;
+export { getLanguageLabel, stripCueMarkup, parseSubtitles, parseTimestamp, formatTimestamp, detectFormat, normalizeCues, toVtt };
+export type { SubtitleCue, SubtitleFormat, SubtitleLanguage };
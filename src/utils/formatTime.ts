@@ -0,0 +1,13 @@
+/**
+ * Formats seconds as `m:ss`, or `h:mm:ss` for positions past one hour.
+ *
+ * @param {number} s - Time in seconds
+ * @returns {string} Formatted time
+ */
+export const formatTime = (s: number) => {
+  if (!isFinite(s)) return '0:00';
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const seconds = Math.floor(s % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};